@@ -2,7 +2,16 @@ import type { Plugin } from "@opencode-ai/plugin"
 import { getConfig } from "./lib/config"
 import { Logger } from "./lib/logger"
 import { createSessionState } from "./lib/state"
-import { createPruneTool, createDistillTool, createCompressTool } from "./lib/strategies"
+import {
+    createPruneTool,
+    createDistillTool,
+    createCompressTool,
+    createRestoreTool,
+    createRecallTool,
+    createUncompressTool,
+    createPinTool,
+    createTrimTool,
+} from "./lib/strategies"
 import {
     createChatMessageTransformHandler,
     createCommandExecuteHandler,
@@ -37,6 +46,7 @@ const plugin: Plugin = (async (ctx) => {
             state,
             logger,
             config,
+            ctx.directory,
         ) as any,
         "chat.message": async (
             input: {
@@ -88,6 +98,52 @@ const plugin: Plugin = (async (ctx) => {
                     workingDirectory: ctx.directory,
                 }),
             }),
+            ...(config.tools.restore.permission !== "deny" && {
+                restore: createRestoreTool({
+                    client: ctx.client,
+                    state,
+                    logger,
+                    config,
+                    workingDirectory: ctx.directory,
+                }),
+            }),
+            ...(config.tools.compress.permission !== "deny" &&
+                config.tools.uncompress.permission !== "deny" && {
+                    uncompress: createUncompressTool({
+                        client: ctx.client,
+                        state,
+                        logger,
+                        config,
+                        workingDirectory: ctx.directory,
+                    }),
+                }),
+            ...(config.tools.trim.permission !== "deny" && {
+                trim: createTrimTool({
+                    client: ctx.client,
+                    state,
+                    logger,
+                    config,
+                    workingDirectory: ctx.directory,
+                }),
+            }),
+            ...(config.tools.pin.permission !== "deny" && {
+                pin: createPinTool({
+                    client: ctx.client,
+                    state,
+                    logger,
+                    config,
+                    workingDirectory: ctx.directory,
+                }),
+            }),
+            ...(config.tools.recall.permission !== "deny" && {
+                recall: createRecallTool({
+                    client: ctx.client,
+                    state,
+                    logger,
+                    config,
+                    workingDirectory: ctx.directory,
+                }),
+            }),
         },
         config: async (opencodeConfig) => {
             if (config.commands.enabled) {
@@ -102,6 +158,15 @@ const plugin: Plugin = (async (ctx) => {
             if (config.tools.distill.permission !== "deny") toolsToAdd.push("distill")
             if (config.tools.compress.permission !== "deny") toolsToAdd.push("compress")
             if (config.tools.prune.permission !== "deny") toolsToAdd.push("prune")
+            if (config.tools.restore.permission !== "deny") toolsToAdd.push("restore")
+            if (
+                config.tools.compress.permission !== "deny" &&
+                config.tools.uncompress.permission !== "deny"
+            )
+                toolsToAdd.push("uncompress")
+            if (config.tools.trim.permission !== "deny") toolsToAdd.push("trim")
+            if (config.tools.pin.permission !== "deny") toolsToAdd.push("pin")
+            if (config.tools.recall.permission !== "deny") toolsToAdd.push("recall")
 
             if (toolsToAdd.length > 0) {
                 const existingPrimaryTools = opencodeConfig.experimental?.primary_tools ?? []
@@ -121,9 +186,16 @@ const plugin: Plugin = (async (ctx) => {
                 distill: config.tools.distill.permission,
                 compress: config.tools.compress.permission,
                 prune: config.tools.prune.permission,
+                restore: config.tools.restore.permission,
+                uncompress: config.tools.uncompress.permission,
+                trim: config.tools.trim.permission,
+                pin: config.tools.pin.permission,
+                recall: config.tools.recall.permission,
             } as typeof permission
         },
     }
 }) satisfies Plugin
 
 export default plugin
+
+export type { Strategy } from "./lib/strategies"
@@ -23,10 +23,13 @@
  *   USER   = tokenizer(all user messages)
  *            User messages are typically small, so estimation is acceptable.
  *
- *   ASSISTANT = total - system - user - tools
+ *   ATTACHMENTS = estimate(images and documents attached to user messages) - pruned
+ *                 Images use a flat per-image estimate, documents their byte size.
+ *
+ *   ASSISTANT = total - system - user - attachments - tools
  *               Calculated as residual. This absorbs:
  *               - Assistant text output tokens
- *               - Reasoning tokens (if persisted by the model)
+ *               - Reasoning tokens (if persisted by the model and not pruned)
  *               - Any estimation errors
  *
  *   TOTAL  = input + output + reasoning + cache.read + cache.write
@@ -44,6 +47,11 @@ import { formatTokenCount } from "../ui/utils"
 import { isMessageCompacted } from "../shared-utils"
 import { isIgnoredUserMessage } from "../messages/utils"
 import { countTokens, getCurrentParams } from "../strategies/utils"
+import {
+    estimateAttachmentTokens,
+    getAttachmentInfo,
+    isAttachmentPart,
+} from "../state/attachment-cache"
 import type { AssistantMessage, TextPart, ToolPart } from "@opencode-ai/sdk/v2"
 
 export interface ContextCommandContext {
@@ -57,12 +65,16 @@ export interface ContextCommandContext {
 interface TokenBreakdown {
     system: number
     user: number
+    attachments: number
+    attachmentCount: number
     assistant: number
     tools: number
     toolCount: number
     prunedTokens: number
     prunedToolCount: number
     prunedMessageCount: number
+    prunedReasoningCount: number
+    prunedAttachmentCount: number
     total: number
 }
 
@@ -70,12 +82,16 @@ function analyzeTokens(state: SessionState, messages: WithParts[]): TokenBreakdo
     const breakdown: TokenBreakdown = {
         system: 0,
         user: 0,
+        attachments: 0,
+        attachmentCount: 0,
         assistant: 0,
         tools: 0,
         toolCount: 0,
         prunedTokens: state.stats.totalPruneTokens,
         prunedToolCount: state.prune.toolIds.size,
         prunedMessageCount: state.prune.messageIds.size,
+        prunedReasoningCount: state.prune.reasoningPartIds.size,
+        prunedAttachmentCount: state.prune.attachmentPartIds.size,
         total: 0,
     }
 
@@ -113,6 +129,7 @@ function analyzeTokens(state: SessionState, messages: WithParts[]): TokenBreakdo
     const toolInputParts: string[] = []
     const toolOutputParts: string[] = []
     let firstUserText = ""
+    let firstUserAttachmentTokens = 0
     let foundFirstUser = false
     const foundToolIds = new Set<string>()
 
@@ -159,6 +176,23 @@ function analyzeTokens(state: SessionState, messages: WithParts[]): TokenBreakdo
                 if (!foundFirstUser) {
                     firstUserText += text
                 }
+            } else if (
+                msg.info.role === "user" &&
+                isAttachmentPart(part) &&
+                !isCompacted &&
+                !isIgnoredUser
+            ) {
+                breakdown.attachmentCount++
+                if (state.prune.attachmentPartIds.has(part.id)) {
+                    continue
+                }
+                const tokens =
+                    state.attachments.get(part.id)?.tokenCount ??
+                    estimateAttachmentTokens(getAttachmentInfo(part))
+                breakdown.attachments += tokens
+                if (!foundFirstUser) {
+                    firstUserAttachmentTokens += tokens
+                }
             }
         }
 
@@ -175,13 +209,17 @@ function analyzeTokens(state: SessionState, messages: WithParts[]): TokenBreakdo
     if (firstAssistant) {
         const firstInput =
             (firstAssistant.tokens?.input || 0) + (firstAssistant.tokens?.cache?.read || 0)
-        breakdown.system = Math.max(0, firstInput - firstUserTokens)
+        breakdown.system = Math.max(0, firstInput - firstUserTokens - firstUserAttachmentTokens)
     }
 
     breakdown.tools = toolInputTokens + toolOutputTokens
     breakdown.assistant = Math.max(
         0,
-        breakdown.total - breakdown.system - breakdown.user - breakdown.tools,
+        breakdown.total -
+            breakdown.system -
+            breakdown.user -
+            breakdown.attachments -
+            breakdown.tools,
     )
 
     return breakdown
@@ -200,10 +238,13 @@ function formatContextMessage(breakdown: TokenBreakdown): string {
 
     const toolsInContext = breakdown.toolCount - breakdown.prunedToolCount
     const toolsLabel = `Tools (${toolsInContext})`
+    const attachmentsInContext = breakdown.attachmentCount - breakdown.prunedAttachmentCount
+    const attachmentsLabel = `Attachments (${attachmentsInContext})`
 
     const categories = [
         { label: "System", value: breakdown.system, char: "█" },
         { label: "User", value: breakdown.user, char: "▓" },
+        { label: attachmentsLabel, value: breakdown.attachments, char: "▚" },
         { label: "Assistant", value: breakdown.assistant, char: "▒" },
         { label: toolsLabel, value: breakdown.tools, char: "░" },
     ] as const
@@ -239,6 +280,10 @@ function formatContextMessage(breakdown: TokenBreakdown): string {
         if (breakdown.prunedToolCount > 0) pruned.push(`${breakdown.prunedToolCount} tools`)
         if (breakdown.prunedMessageCount > 0)
             pruned.push(`${breakdown.prunedMessageCount} messages`)
+        if (breakdown.prunedReasoningCount > 0)
+            pruned.push(`${breakdown.prunedReasoningCount} reasoning blocks`)
+        if (breakdown.prunedAttachmentCount > 0)
+            pruned.push(`${breakdown.prunedAttachmentCount} attachments`)
         lines.push(
             `  Pruned:          ${pruned.join(", ")} (~${formatTokenCount(breakdown.prunedTokens)})`,
         )
@@ -26,6 +26,7 @@ function formatHelpMessage(): string {
     lines.push("  /dcp context      Show token usage breakdown for current session")
     lines.push("  /dcp stats        Show DCP pruning statistics")
     lines.push("  /dcp sweep [n]    Prune tools since last user message, or last n tools")
+    lines.push("  /dcp uncompress [id]  Show the compress summary tree, or roll one back")
     lines.push("")
 
     return lines.join("\n")
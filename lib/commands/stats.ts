@@ -4,9 +4,9 @@
  */
 
 import type { Logger } from "../logger"
-import type { SessionState, WithParts } from "../state"
-import { sendIgnoredMessage } from "../ui/notification"
-import { formatTokenCount } from "../ui/utils"
+import type { PruneReason, SessionState, SessionStats, WithParts } from "../state"
+import { PRUNE_REASON_LABELS, sendIgnoredMessage } from "../ui/notification"
+import { formatTokenCount, formatUsd } from "../ui/utils"
 import { loadAllSessionStats, type AggregatedStats } from "../state/persistence"
 import { getCurrentParams } from "../strategies/utils"
 
@@ -18,10 +18,43 @@ export interface StatsCommandContext {
     messages: WithParts[]
 }
 
+function formatCostLines(savedUsd: number, lostUsd: number): string[] {
+    if (savedUsd === 0 && lostUsd === 0) {
+        return []
+    }
+    return [
+        `  Est. saved:       ${formatUsd(savedUsd)}`,
+        `  Est. cache loss:  ${formatUsd(lostUsd)}`,
+        `  Est. net:         ${formatUsd(savedUsd - lostUsd)}`,
+    ]
+}
+
+function countReasons(reasons: Map<string, PruneReason>): Partial<Record<PruneReason, number>> {
+    const counts: Partial<Record<PruneReason, number>> = {}
+    for (const reason of reasons.values()) {
+        counts[reason] = (counts[reason] || 0) + 1
+    }
+    return counts
+}
+
+function formatReasonLines(counts: Partial<Record<PruneReason, number>>): string[] {
+    const entries = (Object.entries(counts) as [PruneReason, number][]).sort((a, b) => b[1] - a[1])
+    if (entries.length === 0) {
+        return []
+    }
+    const lines = ["  Prune reasons:"]
+    for (const [reason, count] of entries) {
+        lines.push(`    ${PRUNE_REASON_LABELS[reason].padEnd(16)}${count}`)
+    }
+    return lines
+}
+
 function formatStatsMessage(
     sessionTokens: number,
     sessionTools: number,
     sessionMessages: number,
+    sessionStats: SessionStats,
+    sessionReasons: Partial<Record<PruneReason, number>>,
     allTime: AggregatedStats,
 ): string {
     const lines: string[] = []
@@ -35,12 +68,24 @@ function formatStatsMessage(
     lines.push(`  Tokens pruned:   ~${formatTokenCount(sessionTokens)}`)
     lines.push(`  Tools pruned:     ${sessionTools}`)
     lines.push(`  Messages pruned:  ${sessionMessages}`)
+    lines.push(`  Prune batches:    ${sessionStats.pruneBatches}`)
+    lines.push(
+        `  Cache breaks:     ${sessionStats.cacheBreaks} (${sessionStats.dcpCacheBreaks} after DCP changes)`,
+    )
+    lines.push(...formatCostLines(sessionStats.estimatedSavedUsd, sessionStats.estimatedLostUsd))
+    lines.push(...formatReasonLines(sessionReasons))
     lines.push("")
     lines.push("All-time:")
     lines.push("─".repeat(60))
     lines.push(`  Tokens saved:    ~${formatTokenCount(allTime.totalTokens)}`)
     lines.push(`  Tools pruned:     ${allTime.totalTools}`)
     lines.push(`  Messages pruned:  ${allTime.totalMessages}`)
+    lines.push(`  Prune batches:    ${allTime.totalPruneBatches}`)
+    lines.push(
+        `  Cache breaks:     ${allTime.totalCacheBreaks} (${allTime.totalDcpCacheBreaks} after DCP changes)`,
+    )
+    lines.push(...formatCostLines(allTime.totalSavedUsd, allTime.totalLostUsd))
+    lines.push(...formatReasonLines(allTime.reasonCounts))
     lines.push(`  Sessions:         ${allTime.sessionCount}`)
 
     return lines.join("\n")
@@ -53,11 +98,19 @@ export async function handleStatsCommand(ctx: StatsCommandContext): Promise<void
     const sessionTokens = state.stats.totalPruneTokens
     const sessionTools = state.prune.toolIds.size
     const sessionMessages = state.prune.messageIds.size
+    const sessionReasons = countReasons(state.prune.reasons)
 
     // All-time stats from storage files
     const allTime = await loadAllSessionStats(logger)
 
-    const message = formatStatsMessage(sessionTokens, sessionTools, sessionMessages, allTime)
+    const message = formatStatsMessage(
+        sessionTokens,
+        sessionTools,
+        sessionMessages,
+        state.stats,
+        sessionReasons,
+        allTime,
+    )
 
     const params = getCurrentParams(state, messages, logger)
     await sendIgnoredMessage(client, sessionId, message, params, logger)
@@ -66,8 +119,12 @@ export async function handleStatsCommand(ctx: StatsCommandContext): Promise<void
         sessionTokens,
         sessionTools,
         sessionMessages,
+        sessionReasons,
+        sessionCacheBreaks: state.stats.cacheBreaks,
+        sessionDcpCacheBreaks: state.stats.dcpCacheBreaks,
         allTimeTokens: allTime.totalTokens,
         allTimeTools: allTime.totalTools,
         allTimeMessages: allTime.totalMessages,
+        allTimeReasons: allTime.reasonCounts,
     })
 }
@@ -12,7 +12,7 @@ import type { SessionState, WithParts, ToolParameterEntry } from "../state"
 import type { PluginConfig } from "../config"
 import { sendIgnoredMessage } from "../ui/notification"
 import { formatPrunedItemsList } from "../ui/utils"
-import { getCurrentParams, calculateTokensSaved } from "../strategies/utils"
+import { getCurrentParams, calculateTokensSaved, mustKeep } from "../strategies/utils"
 import { buildToolIdList, isIgnoredUserMessage } from "../messages/utils"
 import { saveSessionState } from "../state/persistence"
 import { isMessageCompacted } from "../shared-utils"
@@ -101,7 +101,7 @@ function formatSweepMessage(
             lines.push(`No tools found to sweep.`)
         }
         if (skippedProtected && skippedProtected > 0) {
-            lines.push(`(${skippedProtected} protected tool(s) skipped)`)
+            lines.push(`(${skippedProtected} protected or pinned tool(s) skipped)`)
         }
     } else {
         if (mode === "since-user") {
@@ -111,7 +111,7 @@ function formatSweepMessage(
         }
         lines.push(`Tokens saved: ~${tokensSaved.toLocaleString()}`)
         if (skippedProtected && skippedProtected > 0) {
-            lines.push(`(${skippedProtected} protected tool(s) skipped)`)
+            lines.push(`(${skippedProtected} protected or pinned tool(s) skipped)`)
         }
         lines.push("")
         const itemLines = formatPrunedItemsList(toolIds, toolMetadata, workingDirectory)
@@ -127,7 +127,7 @@ export async function handleSweepCommand(ctx: SweepCommandContext): Promise<void
     const params = getCurrentParams(state, messages, logger)
     const protectedTools = config.commands.protectedTools
 
-    syncToolCache(state, config, logger, messages)
+    syncToolCache(state, config, logger, messages, workingDirectory)
     buildToolIdList(state, messages, logger)
 
     // Parse optional numeric argument
@@ -162,11 +162,15 @@ export async function handleSweepCommand(ctx: SweepCommandContext): Promise<void
         }
     }
 
-    // Filter out already-pruned tools, protected tools, and protected file paths
+    // Filter out already-pruned tools, pinned tools, protected tools, and protected file paths
     const newToolIds = toolIdsToSweep.filter((id) => {
         if (state.prune.toolIds.has(id)) {
             return false
         }
+        if (mustKeep(state, id)) {
+            logger.debug(`Sweep: skipping pinned or rule-protected tool (${id})`)
+            return false
+        }
         const entry = state.toolParameters.get(id)
         if (!entry) {
             return true
@@ -183,8 +187,11 @@ export async function handleSweepCommand(ctx: SweepCommandContext): Promise<void
         return true
     })
 
-    // Count how many were skipped due to protection
+    // Count how many were skipped due to protection or pins
     const skippedProtected = toolIdsToSweep.filter((id) => {
+        if (!state.prune.toolIds.has(id) && mustKeep(state, id)) {
+            return true
+        }
         const entry = state.toolParameters.get(id)
         if (!entry) {
             return false
@@ -0,0 +1,121 @@
+/**
+ * DCP Uncompress command handler.
+ * Shows the compress summaries of the session as a tree, or rolls one back.
+ *
+ * Usage:
+ *   /dcp uncompress       - Show compress operations and what they rolled up
+ *   /dcp uncompress 3     - Roll back compress operation #3
+ */
+
+import type { Logger } from "../logger"
+import type { CompressOperation, CompressSummary, SessionState, WithParts } from "../state"
+import { sendIgnoredMessage } from "../ui/notification"
+import { formatTokenCount } from "../ui/utils"
+import { getCurrentParams } from "../strategies/utils"
+import { saveSessionState } from "../state/persistence"
+import { rollbackCompressOperation } from "../state/utils"
+
+export interface UncompressCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    args: string[]
+}
+
+function formatHeader(): string[] {
+    return [
+        "╭───────────────────────────────────────────────────────────╮",
+        "│                      DCP Uncompress                       │",
+        "╰───────────────────────────────────────────────────────────╯",
+        "",
+    ]
+}
+
+function formatSummaryLabel(
+    summary: CompressSummary,
+    operations: Map<number, CompressOperation>,
+): string {
+    const op = summary.operationId !== undefined ? operations.get(summary.operationId) : undefined
+    if (!op) {
+        return `${summary.topic ?? "(untitled)"} — created by an older version`
+    }
+    return `#${op.id}  ${op.topic} — turn ${op.createdTurn}, ${op.messageIds.length} messages, ~${formatTokenCount(op.tokens)}`
+}
+
+// Rolled up summaries are drawn under the summary that absorbed them
+function formatSummaryTree(
+    summaries: CompressSummary[],
+    operations: Map<number, CompressOperation>,
+    prefix: string,
+    lines: string[],
+): void {
+    summaries.forEach((summary, index) => {
+        const isLast = index === summaries.length - 1
+        lines.push(`${prefix}${isLast ? "└─ " : "├─ "}${formatSummaryLabel(summary, operations)}`)
+        formatSummaryTree(
+            summary.children ?? [],
+            operations,
+            prefix + (isLast ? "   " : "│  "),
+            lines,
+        )
+    })
+}
+
+function formatOperationList(state: SessionState): string {
+    const lines = formatHeader()
+
+    if (state.compressSummaries.length === 0) {
+        lines.push("No compress operations in this session.")
+        return lines.join("\n")
+    }
+
+    const operations = new Map(state.compressOperations.map((op) => [op.id, op]))
+    lines.push("Summaries in context, with the summaries they rolled up:")
+    formatSummaryTree(state.compressSummaries, operations, "  ", lines)
+    lines.push("")
+    lines.push("Run /dcp uncompress <id> to roll back an operation. Only top-level ones can be.")
+
+    return lines.join("\n")
+}
+
+function formatRollbackMessage(operation: CompressOperation): string {
+    const lines = formatHeader()
+    lines.push(`Uncompressed #${operation.id} (${operation.topic}).`)
+    lines.push(
+        `Restored ${operation.messageIds.length} messages and ${operation.toolIds.length} tool(s), ~${formatTokenCount(operation.tokens)}.`,
+    )
+    if (operation.absorbedAnchorIds.length > 0) {
+        lines.push(`Put back ${operation.absorbedAnchorIds.length} rolled up summaries.`)
+    }
+    return lines.join("\n")
+}
+
+export async function handleUncompressCommand(ctx: UncompressCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, args } = ctx
+
+    const params = getCurrentParams(state, messages, logger)
+
+    const operationId = args[0] ? parseInt(args[0].replace(/^#/, ""), 10) : NaN
+    if (isNaN(operationId)) {
+        await sendIgnoredMessage(client, sessionId, formatOperationList(state), params, logger)
+        logger.info("Uncompress command: listed operations")
+        return
+    }
+
+    let message: string
+    try {
+        const operation = rollbackCompressOperation(state, operationId)
+        saveSessionState(state, logger).catch((err) =>
+            logger.error("Failed to persist state after uncompress", { error: err.message }),
+        )
+        message = formatRollbackMessage(operation)
+        logger.info("Uncompress command completed", { operationId })
+    } catch (error: any) {
+        message = [...formatHeader(), error.message].join("\n")
+        logger.info("Uncompress command rejected", { operationId, error: error.message })
+    }
+
+    await sendIgnoredMessage(client, sessionId, message, params, logger)
+}
@@ -9,10 +9,36 @@ export interface Deduplication {
     protectedTools: string[]
 }
 
+export interface SnapshotTools {
+    enabled: boolean
+    tools: string[]
+}
+
 export interface PruneTool {
     permission: "ask" | "allow" | "deny"
 }
 
+export interface RestoreTool {
+    permission: "ask" | "allow" | "deny"
+}
+
+export interface UncompressTool {
+    permission: "ask" | "allow" | "deny"
+}
+
+export interface TrimTool {
+    permission: "ask" | "allow" | "deny"
+}
+
+export interface PinTool {
+    permission: "ask" | "allow" | "deny"
+}
+
+export interface RecallTool {
+    permission: "ask" | "allow" | "deny"
+    maxResults: number
+}
+
 export interface DistillTool {
     permission: "ask" | "allow" | "deny"
     showDistillation: boolean
@@ -35,6 +61,11 @@ export interface Tools {
     distill: DistillTool
     compress: CompressTool
     prune: PruneTool
+    restore: RestoreTool
+    uncompress: UncompressTool
+    trim: TrimTool
+    pin: PinTool
+    recall: RecallTool
 }
 
 export interface Commands {
@@ -42,10 +73,76 @@ export interface Commands {
     protectedTools: string[]
 }
 
+export interface ReadCoverage {
+    enabled: boolean
+    protectedTools: string[]
+}
+
 export interface SupersedeWrites {
     enabled: boolean
 }
 
+export interface StaleReads {
+    enabled: boolean
+    protectedTools: string[]
+}
+
+export interface DiskChanges {
+    enabled: boolean
+    action: "prune" | "annotate"
+    protectedTools: string[]
+}
+
+export interface SmartTruncate {
+    enabled: boolean
+    turns: number
+    protectedTools: string[]
+}
+
+export interface Decay {
+    enabled: boolean
+    truncateTurns: number
+    truncateLines: number
+    pruneTurns: number
+    protectedTools: string[]
+}
+
+export interface Reasoning {
+    enabled: boolean
+    turns: number
+    keepLines: number
+    pruneSigned: boolean
+}
+
+export interface Attachments {
+    enabled: boolean
+    turns: number
+}
+
+export interface TokenBudget {
+    enabled: boolean
+    target: number | `${number}%`
+    protectedTools: string[]
+}
+
+export interface RetryCollapse {
+    enabled: boolean
+    turns: number
+    similarity: number
+    protectedTools: string[]
+}
+
+export interface PruneRule {
+    tool?: string | string[]
+    parameterPattern?: string
+    parameterSource?: "key" | "raw"
+    status?: "completed" | "error"
+    minTokens?: number
+    minTurnAge?: number
+    action: "prune" | "truncate" | "protect"
+    truncateLines?: number
+}
+
 export interface PurgeErrors {
     enabled: boolean
     turns: number
@@ -57,6 +154,26 @@ export interface TurnProtection {
     turns: number
 }
 
+export interface CacheScheduler {
+    enabled: boolean
+    batchThreshold: number
+}
+
+export interface ModelPricing {
+    // USD per million tokens
+    input?: number
+    cacheRead?: number
+    cacheWrite?: number
+    // Billed per request, so the context size does not affect cost
+    perRequest?: boolean
+}
+
+export interface Pricing {
+    enabled: boolean
+    breakEvenRequests: number
+    models: Record<string, ModelPricing>
+}
+
 export interface PluginConfig {
     enabled: boolean
     debug: boolean
@@ -64,12 +181,26 @@ export interface PluginConfig {
     pruneNotificationType: "chat" | "toast"
     commands: Commands
     turnProtection: TurnProtection
+    cacheScheduler: CacheScheduler
+    pricing: Pricing
     protectedFilePatterns: string[]
     tools: Tools
     strategies: {
         deduplication: Deduplication
+        snapshotTools: SnapshotTools
+        readCoverage: ReadCoverage
         supersedeWrites: SupersedeWrites
+        staleReads: StaleReads
+        diskChanges: DiskChanges
         purgeErrors: PurgeErrors
+        retryCollapse: RetryCollapse
+        smartTruncate: SmartTruncate
+        decay: Decay
+        reasoning: Reasoning
+        attachments: Attachments
+        tokenBudget: TokenBudget
+        rules: PruneRule[]
+        custom: string[]
     }
 }
 
@@ -80,6 +211,11 @@ const DEFAULT_PROTECTED_TOOLS = [
     "distill",
     "compress",
     "prune",
+    "restore",
+    "uncompress",
+    "trim",
+    "pin",
+    "recall",
     "batch",
     "plan_enter",
     "plan_exit",
@@ -97,6 +233,13 @@ export const VALID_CONFIG_KEYS = new Set([
     "turnProtection",
     "turnProtection.enabled",
     "turnProtection.turns",
+    "cacheScheduler",
+    "cacheScheduler.enabled",
+    "cacheScheduler.batchThreshold",
+    "pricing",
+    "pricing.enabled",
+    "pricing.breakEvenRequests",
+    "pricing.models",
     "protectedFilePatterns",
     "commands",
     "commands.enabled",
@@ -115,27 +258,98 @@ export const VALID_CONFIG_KEYS = new Set([
     "tools.compress.showCompression",
     "tools.prune",
     "tools.prune.permission",
+    "tools.restore",
+    "tools.restore.permission",
+    "tools.uncompress",
+    "tools.uncompress.permission",
+    "tools.trim",
+    "tools.trim.permission",
+    "tools.pin",
+    "tools.pin.permission",
+    "tools.recall",
+    "tools.recall.permission",
+    "tools.recall.maxResults",
     "strategies",
     // strategies.deduplication
     "strategies.deduplication",
     "strategies.deduplication.enabled",
     "strategies.deduplication.protectedTools",
+    // strategies.snapshotTools
+    "strategies.snapshotTools",
+    "strategies.snapshotTools.enabled",
+    "strategies.snapshotTools.tools",
+    // strategies.readCoverage
+    "strategies.readCoverage",
+    "strategies.readCoverage.enabled",
+    "strategies.readCoverage.protectedTools",
     // strategies.supersedeWrites
     "strategies.supersedeWrites",
     "strategies.supersedeWrites.enabled",
+    // strategies.staleReads
+    "strategies.staleReads",
+    "strategies.staleReads.enabled",
+    "strategies.staleReads.protectedTools",
+    // strategies.diskChanges
+    "strategies.diskChanges",
+    "strategies.diskChanges.enabled",
+    "strategies.diskChanges.action",
+    "strategies.diskChanges.protectedTools",
     // strategies.purgeErrors
     "strategies.purgeErrors",
     "strategies.purgeErrors.enabled",
     "strategies.purgeErrors.turns",
     "strategies.purgeErrors.protectedTools",
+    // strategies.retryCollapse
+    "strategies.retryCollapse",
+    "strategies.retryCollapse.enabled",
+    "strategies.retryCollapse.turns",
+    "strategies.retryCollapse.similarity",
+    "strategies.retryCollapse.protectedTools",
+    // strategies.smartTruncate
+    "strategies.smartTruncate",
+    "strategies.smartTruncate.enabled",
+    "strategies.smartTruncate.turns",
+    "strategies.smartTruncate.protectedTools",
+    // strategies.decay
+    "strategies.decay",
+    "strategies.decay.enabled",
+    "strategies.decay.truncateTurns",
+    "strategies.decay.truncateLines",
+    "strategies.decay.pruneTurns",
+    "strategies.decay.protectedTools",
+    // strategies.reasoning
+    "strategies.reasoning",
+    "strategies.reasoning.enabled",
+    "strategies.reasoning.turns",
+    "strategies.reasoning.keepLines",
+    "strategies.reasoning.pruneSigned",
+    // strategies.attachments
+    "strategies.attachments",
+    "strategies.attachments.enabled",
+    "strategies.attachments.turns",
+    // strategies.tokenBudget
+    "strategies.tokenBudget",
+    "strategies.tokenBudget.enabled",
+    "strategies.tokenBudget.target",
+    "strategies.tokenBudget.protectedTools",
+    // strategies.rules
+    "strategies.rules",
+    // strategies.custom
+    "strategies.custom",
 ])
 
+// Config objects keyed by user-defined names, validated by their own validators
+const FREE_FORM_CONFIG_KEYS = new Set(["pricing.models"])
+
 // Extract all key paths from a config object for validation
 function getConfigKeyPaths(obj: Record<string, any>, prefix = ""): string[] {
     const keys: string[] = []
     for (const key of Object.keys(obj)) {
         const fullKey = prefix ? `${prefix}.${key}` : key
         keys.push(fullKey)
+        if (FREE_FORM_CONFIG_KEYS.has(fullKey)) {
+            continue
+        }
         if (obj[key] && typeof obj[key] === "object" && !Array.isArray(obj[key])) {
             keys.push(...getConfigKeyPaths(obj[key], fullKey))
         }
@@ -156,6 +370,134 @@ interface ValidationError {
     actual: string
 }
 
+const RULE_ACTIONS = ["prune", "truncate", "protect"]
+const RULE_STATUSES = ["completed", "error"]
+const RULE_PARAMETER_SOURCES = ["key", "raw"]
+
+function validateRule(rule: any, key: string): ValidationError[] {
+    const errors: ValidationError[] = []
+
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+        errors.push({ key, expected: "object", actual: typeof rule })
+        return errors
+    }
+
+    if (!RULE_ACTIONS.includes(rule.action)) {
+        errors.push({
+            key: `${key}.action`,
+            expected: '"prune" | "truncate" | "protect"',
+            actual: JSON.stringify(rule.action),
+        })
+    }
+    if (
+        rule.tool !== undefined &&
+        typeof rule.tool !== "string" &&
+        !(Array.isArray(rule.tool) && rule.tool.every((t: unknown) => typeof t === "string"))
+    ) {
+        errors.push({
+            key: `${key}.tool`,
+            expected: "string | string[]",
+            actual: JSON.stringify(rule.tool),
+        })
+    }
+    if (rule.parameterPattern !== undefined) {
+        let isValidPattern = typeof rule.parameterPattern === "string"
+        if (isValidPattern) {
+            try {
+                new RegExp(rule.parameterPattern)
+            } catch {
+                isValidPattern = false
+            }
+        }
+        if (!isValidPattern) {
+            errors.push({
+                key: `${key}.parameterPattern`,
+                expected: "valid regular expression string",
+                actual: JSON.stringify(rule.parameterPattern),
+            })
+        }
+    }
+    if (
+        rule.parameterSource !== undefined &&
+        !RULE_PARAMETER_SOURCES.includes(rule.parameterSource)
+    ) {
+        errors.push({
+            key: `${key}.parameterSource`,
+            expected: '"key" | "raw"',
+            actual: JSON.stringify(rule.parameterSource),
+        })
+    }
+    if (rule.status !== undefined && !RULE_STATUSES.includes(rule.status)) {
+        errors.push({
+            key: `${key}.status`,
+            expected: '"completed" | "error"',
+            actual: JSON.stringify(rule.status),
+        })
+    }
+    if (rule.minTokens !== undefined && typeof rule.minTokens !== "number") {
+        errors.push({
+            key: `${key}.minTokens`,
+            expected: "number",
+            actual: typeof rule.minTokens,
+        })
+    }
+    if (rule.minTurnAge !== undefined && typeof rule.minTurnAge !== "number") {
+        errors.push({
+            key: `${key}.minTurnAge`,
+            expected: "number",
+            actual: typeof rule.minTurnAge,
+        })
+    }
+    if (rule.truncateLines !== undefined && typeof rule.truncateLines !== "number") {
+        errors.push({
+            key: `${key}.truncateLines`,
+            expected: "number",
+            actual: typeof rule.truncateLines,
+        })
+    }
+
+    return errors
+}
+
+const MODEL_PRICING_KEYS = ["input", "cacheRead", "cacheWrite", "perRequest"]
+
+function validateModelPricing(pricing: any, key: string): ValidationError[] {
+    const errors: ValidationError[] = []
+
+    if (!pricing || typeof pricing !== "object" || Array.isArray(pricing)) {
+        errors.push({ key, expected: "object", actual: typeof pricing })
+        return errors
+    }
+
+    for (const field of Object.keys(pricing)) {
+        if (!MODEL_PRICING_KEYS.includes(field)) {
+            errors.push({
+                key: `${key}.${field}`,
+                expected: MODEL_PRICING_KEYS.join(" | "),
+                actual: "unknown key",
+            })
+        }
+    }
+    for (const field of ["input", "cacheRead", "cacheWrite"]) {
+        if (pricing[field] !== undefined && typeof pricing[field] !== "number") {
+            errors.push({
+                key: `${key}.${field}`,
+                expected: "number",
+                actual: typeof pricing[field],
+            })
+        }
+    }
+    if (pricing.perRequest !== undefined && typeof pricing.perRequest !== "boolean") {
+        errors.push({
+            key: `${key}.perRequest`,
+            expected: "boolean",
+            actual: typeof pricing.perRequest,
+        })
+    }
+
+    return errors
+}
+
 function validateConfigTypes(config: Record<string, any>): ValidationError[] {
     const errors: ValidationError[] = []
 
@@ -228,6 +570,68 @@ function validateConfigTypes(config: Record<string, any>): ValidationError[] {
         }
     }
 
+    // Top-level cacheScheduler validator
+    if (config.cacheScheduler) {
+        if (
+            config.cacheScheduler.enabled !== undefined &&
+            typeof config.cacheScheduler.enabled !== "boolean"
+        ) {
+            errors.push({
+                key: "cacheScheduler.enabled",
+                expected: "boolean",
+                actual: typeof config.cacheScheduler.enabled,
+            })
+        }
+        if (
+            config.cacheScheduler.batchThreshold !== undefined &&
+            typeof config.cacheScheduler.batchThreshold !== "number"
+        ) {
+            errors.push({
+                key: "cacheScheduler.batchThreshold",
+                expected: "number",
+                actual: typeof config.cacheScheduler.batchThreshold,
+            })
+        }
+    }
+
+    // Top-level pricing validator
+    if (config.pricing) {
+        if (config.pricing.enabled !== undefined && typeof config.pricing.enabled !== "boolean") {
+            errors.push({
+                key: "pricing.enabled",
+                expected: "boolean",
+                actual: typeof config.pricing.enabled,
+            })
+        }
+        if (
+            config.pricing.breakEvenRequests !== undefined &&
+            typeof config.pricing.breakEvenRequests !== "number"
+        ) {
+            errors.push({
+                key: "pricing.breakEvenRequests",
+                expected: "number",
+                actual: typeof config.pricing.breakEvenRequests,
+            })
+        }
+        if (config.pricing.models !== undefined) {
+            if (
+                typeof config.pricing.models !== "object" ||
+                config.pricing.models === null ||
+                Array.isArray(config.pricing.models)
+            ) {
+                errors.push({
+                    key: "pricing.models",
+                    expected: "object",
+                    actual: typeof config.pricing.models,
+                })
+            } else {
+                for (const [model, pricing] of Object.entries(config.pricing.models)) {
+                    errors.push(...validateModelPricing(pricing, `pricing.models.${model}`))
+                }
+            }
+        }
+    }
+
     // Commands validator
     const commands = config.commands
     if (commands !== undefined) {
@@ -360,6 +764,76 @@ function validateConfigTypes(config: Record<string, any>): ValidationError[] {
                 }
             }
         }
+        if (tools.restore) {
+            if (tools.restore.permission !== undefined) {
+                const validValues = ["ask", "allow", "deny"]
+                if (!validValues.includes(tools.restore.permission)) {
+                    errors.push({
+                        key: "tools.restore.permission",
+                        expected: '"ask" | "allow" | "deny"',
+                        actual: JSON.stringify(tools.restore.permission),
+                    })
+                }
+            }
+        }
+        if (tools.uncompress) {
+            if (tools.uncompress.permission !== undefined) {
+                const validValues = ["ask", "allow", "deny"]
+                if (!validValues.includes(tools.uncompress.permission)) {
+                    errors.push({
+                        key: "tools.uncompress.permission",
+                        expected: '"ask" | "allow" | "deny"',
+                        actual: JSON.stringify(tools.uncompress.permission),
+                    })
+                }
+            }
+        }
+        if (tools.trim) {
+            if (tools.trim.permission !== undefined) {
+                const validValues = ["ask", "allow", "deny"]
+                if (!validValues.includes(tools.trim.permission)) {
+                    errors.push({
+                        key: "tools.trim.permission",
+                        expected: '"ask" | "allow" | "deny"',
+                        actual: JSON.stringify(tools.trim.permission),
+                    })
+                }
+            }
+        }
+        if (tools.pin) {
+            if (tools.pin.permission !== undefined) {
+                const validValues = ["ask", "allow", "deny"]
+                if (!validValues.includes(tools.pin.permission)) {
+                    errors.push({
+                        key: "tools.pin.permission",
+                        expected: '"ask" | "allow" | "deny"',
+                        actual: JSON.stringify(tools.pin.permission),
+                    })
+                }
+            }
+        }
+        if (tools.recall) {
+            if (tools.recall.permission !== undefined) {
+                const validValues = ["ask", "allow", "deny"]
+                if (!validValues.includes(tools.recall.permission)) {
+                    errors.push({
+                        key: "tools.recall.permission",
+                        expected: '"ask" | "allow" | "deny"',
+                        actual: JSON.stringify(tools.recall.permission),
+                    })
+                }
+            }
+            if (
+                tools.recall.maxResults !== undefined &&
+                typeof tools.recall.maxResults !== "number"
+            ) {
+                errors.push({
+                    key: "tools.recall.maxResults",
+                    expected: "number",
+                    actual: typeof tools.recall.maxResults,
+                })
+            }
+        }
     }
 
     // Strategies validators
@@ -387,6 +861,54 @@ function validateConfigTypes(config: Record<string, any>): ValidationError[] {
             })
         }
 
+        // snapshotTools
+        if (strategies.snapshotTools) {
+            if (
+                strategies.snapshotTools.enabled !== undefined &&
+                typeof strategies.snapshotTools.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.snapshotTools.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.snapshotTools.enabled,
+                })
+            }
+            if (
+                strategies.snapshotTools.tools !== undefined &&
+                !Array.isArray(strategies.snapshotTools.tools)
+            ) {
+                errors.push({
+                    key: "strategies.snapshotTools.tools",
+                    expected: "string[]",
+                    actual: typeof strategies.snapshotTools.tools,
+                })
+            }
+        }
+
+        // readCoverage
+        if (strategies.readCoverage) {
+            if (
+                strategies.readCoverage.enabled !== undefined &&
+                typeof strategies.readCoverage.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.readCoverage.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.readCoverage.enabled,
+                })
+            }
+            if (
+                strategies.readCoverage.protectedTools !== undefined &&
+                !Array.isArray(strategies.readCoverage.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.readCoverage.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.readCoverage.protectedTools,
+                })
+            }
+        }
+
         // supersedeWrites
         if (strategies.supersedeWrites) {
             if (
@@ -401,6 +923,65 @@ function validateConfigTypes(config: Record<string, any>): ValidationError[] {
             }
         }
 
+        // staleReads
+        if (strategies.staleReads) {
+            if (
+                strategies.staleReads.enabled !== undefined &&
+                typeof strategies.staleReads.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.staleReads.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.staleReads.enabled,
+                })
+            }
+            if (
+                strategies.staleReads.protectedTools !== undefined &&
+                !Array.isArray(strategies.staleReads.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.staleReads.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.staleReads.protectedTools,
+                })
+            }
+        }
+
+        // diskChanges
+        if (strategies.diskChanges) {
+            if (
+                strategies.diskChanges.enabled !== undefined &&
+                typeof strategies.diskChanges.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.diskChanges.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.diskChanges.enabled,
+                })
+            }
+            if (
+                strategies.diskChanges.action !== undefined &&
+                strategies.diskChanges.action !== "prune" &&
+                strategies.diskChanges.action !== "annotate"
+            ) {
+                errors.push({
+                    key: "strategies.diskChanges.action",
+                    expected: '"prune" | "annotate"',
+                    actual: JSON.stringify(strategies.diskChanges.action),
+                })
+            }
+            if (
+                strategies.diskChanges.protectedTools !== undefined &&
+                !Array.isArray(strategies.diskChanges.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.diskChanges.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.diskChanges.protectedTools,
+                })
+            }
+        }
+
         // purgeErrors
         if (strategies.purgeErrors) {
             if (
@@ -434,6 +1015,268 @@ function validateConfigTypes(config: Record<string, any>): ValidationError[] {
                 })
             }
         }
+
+        // retryCollapse
+        if (strategies.retryCollapse) {
+            if (
+                strategies.retryCollapse.enabled !== undefined &&
+                typeof strategies.retryCollapse.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.retryCollapse.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.retryCollapse.enabled,
+                })
+            }
+            if (
+                strategies.retryCollapse.turns !== undefined &&
+                typeof strategies.retryCollapse.turns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.retryCollapse.turns",
+                    expected: "number",
+                    actual: typeof strategies.retryCollapse.turns,
+                })
+            }
+            if (
+                strategies.retryCollapse.similarity !== undefined &&
+                typeof strategies.retryCollapse.similarity !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.retryCollapse.similarity",
+                    expected: "number",
+                    actual: typeof strategies.retryCollapse.similarity,
+                })
+            }
+            if (
+                strategies.retryCollapse.protectedTools !== undefined &&
+                !Array.isArray(strategies.retryCollapse.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.retryCollapse.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.retryCollapse.protectedTools,
+                })
+            }
+        }
+
+        // smartTruncate
+        if (strategies.smartTruncate) {
+            if (
+                strategies.smartTruncate.enabled !== undefined &&
+                typeof strategies.smartTruncate.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.smartTruncate.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.smartTruncate.enabled,
+                })
+            }
+            if (
+                strategies.smartTruncate.turns !== undefined &&
+                typeof strategies.smartTruncate.turns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.smartTruncate.turns",
+                    expected: "number",
+                    actual: typeof strategies.smartTruncate.turns,
+                })
+            }
+            if (
+                strategies.smartTruncate.protectedTools !== undefined &&
+                !Array.isArray(strategies.smartTruncate.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.smartTruncate.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.smartTruncate.protectedTools,
+                })
+            }
+        }
+
+        // decay
+        if (strategies.decay) {
+            if (
+                strategies.decay.enabled !== undefined &&
+                typeof strategies.decay.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.decay.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.decay.enabled,
+                })
+            }
+            if (
+                strategies.decay.truncateTurns !== undefined &&
+                typeof strategies.decay.truncateTurns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.decay.truncateTurns",
+                    expected: "number",
+                    actual: typeof strategies.decay.truncateTurns,
+                })
+            }
+            if (
+                strategies.decay.truncateLines !== undefined &&
+                typeof strategies.decay.truncateLines !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.decay.truncateLines",
+                    expected: "number",
+                    actual: typeof strategies.decay.truncateLines,
+                })
+            }
+            if (
+                strategies.decay.pruneTurns !== undefined &&
+                typeof strategies.decay.pruneTurns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.decay.pruneTurns",
+                    expected: "number",
+                    actual: typeof strategies.decay.pruneTurns,
+                })
+            }
+            if (
+                strategies.decay.protectedTools !== undefined &&
+                !Array.isArray(strategies.decay.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.decay.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.decay.protectedTools,
+                })
+            }
+        }
+
+        // reasoning
+        if (strategies.reasoning) {
+            if (
+                strategies.reasoning.enabled !== undefined &&
+                typeof strategies.reasoning.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.reasoning.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.reasoning.enabled,
+                })
+            }
+            if (
+                strategies.reasoning.turns !== undefined &&
+                typeof strategies.reasoning.turns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.reasoning.turns",
+                    expected: "number",
+                    actual: typeof strategies.reasoning.turns,
+                })
+            }
+            if (
+                strategies.reasoning.keepLines !== undefined &&
+                typeof strategies.reasoning.keepLines !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.reasoning.keepLines",
+                    expected: "number",
+                    actual: typeof strategies.reasoning.keepLines,
+                })
+            }
+            if (
+                strategies.reasoning.pruneSigned !== undefined &&
+                typeof strategies.reasoning.pruneSigned !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.reasoning.pruneSigned",
+                    expected: "boolean",
+                    actual: typeof strategies.reasoning.pruneSigned,
+                })
+            }
+        }
+
+        // attachments
+        if (strategies.attachments) {
+            if (
+                strategies.attachments.enabled !== undefined &&
+                typeof strategies.attachments.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.attachments.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.attachments.enabled,
+                })
+            }
+            if (
+                strategies.attachments.turns !== undefined &&
+                typeof strategies.attachments.turns !== "number"
+            ) {
+                errors.push({
+                    key: "strategies.attachments.turns",
+                    expected: "number",
+                    actual: typeof strategies.attachments.turns,
+                })
+            }
+        }
+
+        // tokenBudget
+        if (strategies.tokenBudget) {
+            if (
+                strategies.tokenBudget.enabled !== undefined &&
+                typeof strategies.tokenBudget.enabled !== "boolean"
+            ) {
+                errors.push({
+                    key: "strategies.tokenBudget.enabled",
+                    expected: "boolean",
+                    actual: typeof strategies.tokenBudget.enabled,
+                })
+            }
+            if (strategies.tokenBudget.target !== undefined) {
+                const isValidNumber = typeof strategies.tokenBudget.target === "number"
+                const isPercentString =
+                    typeof strategies.tokenBudget.target === "string" &&
+                    strategies.tokenBudget.target.endsWith("%")
+
+                if (!isValidNumber && !isPercentString) {
+                    errors.push({
+                        key: "strategies.tokenBudget.target",
+                        expected: 'number | "${number}%"',
+                        actual: JSON.stringify(strategies.tokenBudget.target),
+                    })
+                }
+            }
+            if (
+                strategies.tokenBudget.protectedTools !== undefined &&
+                !Array.isArray(strategies.tokenBudget.protectedTools)
+            ) {
+                errors.push({
+                    key: "strategies.tokenBudget.protectedTools",
+                    expected: "string[]",
+                    actual: typeof strategies.tokenBudget.protectedTools,
+                })
+            }
+        }
+
+        // rules
+        if (strategies.rules !== undefined) {
+            if (!Array.isArray(strategies.rules)) {
+                errors.push({
+                    key: "strategies.rules",
+                    expected: "array",
+                    actual: typeof strategies.rules,
+                })
+            } else {
+                strategies.rules.forEach((rule: any, index: number) => {
+                    errors.push(...validateRule(rule, `strategies.rules[${index}]`))
+                })
+            }
+        }
+
+        // custom
+        if (strategies.custom !== undefined && !Array.isArray(strategies.custom)) {
+            errors.push({
+                key: "strategies.custom",
+                expected: "string[]",
+                actual: typeof strategies.custom,
+            })
+        }
     }
 
     return errors
@@ -498,6 +1341,17 @@ const defaultConfig: PluginConfig = {
         enabled: false,
         turns: 4,
     },
+    cacheScheduler: {
+        enabled: false,
+        batchThreshold: 10000,
+    },
+    pricing: {
+        enabled: false,
+        breakEvenRequests: 10,
+        models: {
+            "github-copilot/**": { perRequest: true },
+        },
+    },
     protectedFilePatterns: [],
     tools: {
         settings: {
@@ -517,20 +1371,88 @@ const defaultConfig: PluginConfig = {
         prune: {
             permission: "allow",
         },
+        restore: {
+            permission: "deny",
+        },
+        uncompress: {
+            permission: "deny",
+        },
+        trim: {
+            permission: "deny",
+        },
+        pin: {
+            permission: "deny",
+        },
+        recall: {
+            permission: "deny",
+            maxResults: 5,
+        },
     },
     strategies: {
         deduplication: {
             enabled: true,
             protectedTools: [],
         },
+        snapshotTools: {
+            enabled: false,
+            tools: ["todowrite", "todoread"],
+        },
+        readCoverage: {
+            enabled: false,
+            protectedTools: [],
+        },
         supersedeWrites: {
             enabled: true,
         },
+        staleReads: {
+            enabled: false,
+            protectedTools: [],
+        },
+        diskChanges: {
+            enabled: false,
+            action: "annotate",
+            protectedTools: [],
+        },
         purgeErrors: {
             enabled: true,
             turns: 4,
             protectedTools: [],
         },
+        retryCollapse: {
+            enabled: false,
+            turns: 2,
+            similarity: 80,
+            protectedTools: [],
+        },
+        smartTruncate: {
+            enabled: false,
+            turns: 4,
+            protectedTools: [],
+        },
+        decay: {
+            enabled: false,
+            truncateTurns: 8,
+            truncateLines: 40,
+            pruneTurns: 20,
+            protectedTools: [],
+        },
+        reasoning: {
+            enabled: false,
+            turns: 2,
+            keepLines: 0,
+            pruneSigned: false,
+        },
+        attachments: {
+            enabled: false,
+            turns: 4,
+        },
+        tokenBudget: {
+            enabled: false,
+            target: "80%",
+            protectedTools: [],
+        },
+        rules: [],
+        custom: [],
     },
 }
 
@@ -540,7 +1462,7 @@ const GLOBAL_CONFIG_DIR = process.env.XDG_CONFIG_HOME
 const GLOBAL_CONFIG_PATH_JSONC = join(GLOBAL_CONFIG_DIR, "dcp.jsonc")
 const GLOBAL_CONFIG_PATH_JSON = join(GLOBAL_CONFIG_DIR, "dcp.json")
 
-function findOpencodeDir(startDir: string): string | null {
+export function findOpencodeDir(startDir: string): string | null {
     let current = startDir
     while (current !== "/") {
         const candidate = join(current, ".opencode")
@@ -651,9 +1573,43 @@ function mergeStrategies(
                 ]),
             ],
         },
+        snapshotTools: {
+            enabled: override.snapshotTools?.enabled ?? base.snapshotTools.enabled,
+            tools: [
+                ...new Set([...base.snapshotTools.tools, ...(override.snapshotTools?.tools ?? [])]),
+            ],
+        },
+        readCoverage: {
+            enabled: override.readCoverage?.enabled ?? base.readCoverage.enabled,
+            protectedTools: [
+                ...new Set([
+                    ...base.readCoverage.protectedTools,
+                    ...(override.readCoverage?.protectedTools ?? []),
+                ]),
+            ],
+        },
         supersedeWrites: {
             enabled: override.supersedeWrites?.enabled ?? base.supersedeWrites.enabled,
         },
+        staleReads: {
+            enabled: override.staleReads?.enabled ?? base.staleReads.enabled,
+            protectedTools: [
+                ...new Set([
+                    ...base.staleReads.protectedTools,
+                    ...(override.staleReads?.protectedTools ?? []),
+                ]),
+            ],
+        },
+        diskChanges: {
+            enabled: override.diskChanges?.enabled ?? base.diskChanges.enabled,
+            action: override.diskChanges?.action ?? base.diskChanges.action,
+            protectedTools: [
+                ...new Set([
+                    ...base.diskChanges.protectedTools,
+                    ...(override.diskChanges?.protectedTools ?? []),
+                ]),
+            ],
+        },
         purgeErrors: {
             enabled: override.purgeErrors?.enabled ?? base.purgeErrors.enabled,
             turns: override.purgeErrors?.turns ?? base.purgeErrors.turns,
@@ -664,6 +1620,83 @@ function mergeStrategies(
                 ]),
             ],
         },
+        retryCollapse: {
+            enabled: override.retryCollapse?.enabled ?? base.retryCollapse.enabled,
+            turns: override.retryCollapse?.turns ?? base.retryCollapse.turns,
+            similarity: override.retryCollapse?.similarity ?? base.retryCollapse.similarity,
+            protectedTools: [
+                ...new Set([
+                    ...base.retryCollapse.protectedTools,
+                    ...(override.retryCollapse?.protectedTools ?? []),
+                ]),
+            ],
+        },
+        smartTruncate: {
+            enabled: override.smartTruncate?.enabled ?? base.smartTruncate.enabled,
+            turns: override.smartTruncate?.turns ?? base.smartTruncate.turns,
+            protectedTools: [
+                ...new Set([
+                    ...base.smartTruncate.protectedTools,
+                    ...(override.smartTruncate?.protectedTools ?? []),
+                ]),
+            ],
+        },
+        decay: {
+            enabled: override.decay?.enabled ?? base.decay.enabled,
+            truncateTurns: override.decay?.truncateTurns ?? base.decay.truncateTurns,
+            truncateLines: override.decay?.truncateLines ?? base.decay.truncateLines,
+            pruneTurns: override.decay?.pruneTurns ?? base.decay.pruneTurns,
+            protectedTools: [
+                ...new Set([
+                    ...base.decay.protectedTools,
+                    ...(override.decay?.protectedTools ?? []),
+                ]),
+            ],
+        },
+        reasoning: {
+            enabled: override.reasoning?.enabled ?? base.reasoning.enabled,
+            turns: override.reasoning?.turns ?? base.reasoning.turns,
+            keepLines: override.reasoning?.keepLines ?? base.reasoning.keepLines,
+            pruneSigned: override.reasoning?.pruneSigned ?? base.reasoning.pruneSigned,
+        },
+        attachments: {
+            enabled: override.attachments?.enabled ?? base.attachments.enabled,
+            turns: override.attachments?.turns ?? base.attachments.turns,
+        },
+        tokenBudget: {
+            enabled: override.tokenBudget?.enabled ?? base.tokenBudget.enabled,
+            target: override.tokenBudget?.target ?? base.tokenBudget.target,
+            protectedTools: [
+                ...new Set([
+                    ...base.tokenBudget.protectedTools,
+                    ...(override.tokenBudget?.protectedTools ?? []),
+                ]),
+            ],
+        },
+        // Override rules are evaluated first so the more specific config wins
+        rules: [...(override.rules ?? []), ...base.rules],
+        custom: [...new Set([...base.custom, ...(override.custom ?? [])])],
+    }
+}
+
+function mergePricing(
+    base: PluginConfig["pricing"],
+    override?: Partial<PluginConfig["pricing"]>,
+): PluginConfig["pricing"] {
+    if (!override) return base
+
+    // Override models come first so their patterns take precedence
+    const models: Record<string, ModelPricing> = { ...(override.models ?? {}) }
+    for (const [key, pricing] of Object.entries(base.models)) {
+        if (!(key in models)) {
+            models[key] = pricing
+        }
+    }
+
+    return {
+        enabled: override.enabled ?? base.enabled,
+        breakEvenRequests: override.breakEvenRequests ?? base.breakEvenRequests,
+        models,
     }
 }
 
@@ -696,6 +1729,22 @@ function mergeTools(
         prune: {
             permission: override.prune?.permission ?? base.prune.permission,
         },
+        restore: {
+            permission: override.restore?.permission ?? base.restore.permission,
+        },
+        uncompress: {
+            permission: override.uncompress?.permission ?? base.uncompress.permission,
+        },
+        trim: {
+            permission: override.trim?.permission ?? base.trim.permission,
+        },
+        pin: {
+            permission: override.pin?.permission ?? base.pin.permission,
+        },
+        recall: {
+            permission: override.recall?.permission ?? base.recall.permission,
+            maxResults: override.recall?.maxResults ?? base.recall.maxResults,
+        },
     }
 }
 
@@ -719,6 +1768,16 @@ function deepCloneConfig(config: PluginConfig): PluginConfig {
             protectedTools: [...config.commands.protectedTools],
         },
         turnProtection: { ...config.turnProtection },
+        cacheScheduler: { ...config.cacheScheduler },
+        pricing: {
+            ...config.pricing,
+            models: Object.fromEntries(
+                Object.entries(config.pricing.models).map(([key, pricing]) => [
+                    key,
+                    { ...pricing },
+                ]),
+            ),
+        },
         protectedFilePatterns: [...config.protectedFilePatterns],
         tools: {
             settings: {
@@ -728,23 +1787,75 @@ function deepCloneConfig(config: PluginConfig): PluginConfig {
             distill: { ...config.tools.distill },
             compress: { ...config.tools.compress },
             prune: { ...config.tools.prune },
+            restore: { ...config.tools.restore },
+            uncompress: { ...config.tools.uncompress },
+            trim: { ...config.tools.trim },
+            pin: { ...config.tools.pin },
+            recall: { ...config.tools.recall },
         },
         strategies: {
             deduplication: {
                 ...config.strategies.deduplication,
                 protectedTools: [...config.strategies.deduplication.protectedTools],
             },
+            snapshotTools: {
+                ...config.strategies.snapshotTools,
+                tools: [...config.strategies.snapshotTools.tools],
+            },
+            readCoverage: {
+                ...config.strategies.readCoverage,
+                protectedTools: [...config.strategies.readCoverage.protectedTools],
+            },
             supersedeWrites: {
                 ...config.strategies.supersedeWrites,
             },
+            staleReads: {
+                ...config.strategies.staleReads,
+                protectedTools: [...config.strategies.staleReads.protectedTools],
+            },
+            diskChanges: {
+                ...config.strategies.diskChanges,
+                protectedTools: [...config.strategies.diskChanges.protectedTools],
+            },
             purgeErrors: {
                 ...config.strategies.purgeErrors,
                 protectedTools: [...config.strategies.purgeErrors.protectedTools],
             },
+            retryCollapse: {
+                ...config.strategies.retryCollapse,
+                protectedTools: [...config.strategies.retryCollapse.protectedTools],
+            },
+            smartTruncate: {
+                ...config.strategies.smartTruncate,
+                protectedTools: [...config.strategies.smartTruncate.protectedTools],
+            },
+            decay: {
+                ...config.strategies.decay,
+                protectedTools: [...config.strategies.decay.protectedTools],
+            },
+            reasoning: {
+                ...config.strategies.reasoning,
+            },
+            attachments: {
+                ...config.strategies.attachments,
+            },
+            tokenBudget: {
+                ...config.strategies.tokenBudget,
+                protectedTools: [...config.strategies.tokenBudget.protectedTools],
+            },
+            rules: config.strategies.rules.map((rule) => ({ ...rule })),
+            custom: [...config.strategies.custom],
         },
     }
 }
 
+/**
+ * Default config, without any config file applied.
+ */
+export function getDefaultConfig(): PluginConfig {
+    return deepCloneConfig(defaultConfig)
+}
+
 export function getConfig(ctx: PluginInput): PluginConfig {
     let config = deepCloneConfig(defaultConfig)
     const configPaths = getConfigPaths(ctx)
@@ -779,6 +1890,13 @@ export function getConfig(ctx: PluginInput): PluginConfig {
                     enabled: result.data.turnProtection?.enabled ?? config.turnProtection.enabled,
                     turns: result.data.turnProtection?.turns ?? config.turnProtection.turns,
                 },
+                cacheScheduler: {
+                    enabled: result.data.cacheScheduler?.enabled ?? config.cacheScheduler.enabled,
+                    batchThreshold:
+                        result.data.cacheScheduler?.batchThreshold ??
+                        config.cacheScheduler.batchThreshold,
+                },
+                pricing: mergePricing(config.pricing, result.data.pricing as any),
                 protectedFilePatterns: [
                     ...new Set([
                         ...config.protectedFilePatterns,
@@ -824,6 +1942,13 @@ export function getConfig(ctx: PluginInput): PluginConfig {
                     enabled: result.data.turnProtection?.enabled ?? config.turnProtection.enabled,
                     turns: result.data.turnProtection?.turns ?? config.turnProtection.turns,
                 },
+                cacheScheduler: {
+                    enabled: result.data.cacheScheduler?.enabled ?? config.cacheScheduler.enabled,
+                    batchThreshold:
+                        result.data.cacheScheduler?.batchThreshold ??
+                        config.cacheScheduler.batchThreshold,
+                },
+                pricing: mergePricing(config.pricing, result.data.pricing as any),
                 protectedFilePatterns: [
                     ...new Set([
                         ...config.protectedFilePatterns,
@@ -866,6 +1991,13 @@ export function getConfig(ctx: PluginInput): PluginConfig {
                     enabled: result.data.turnProtection?.enabled ?? config.turnProtection.enabled,
                     turns: result.data.turnProtection?.turns ?? config.turnProtection.turns,
                 },
+                cacheScheduler: {
+                    enabled: result.data.cacheScheduler?.enabled ?? config.cacheScheduler.enabled,
+                    batchThreshold:
+                        result.data.cacheScheduler?.batchThreshold ??
+                        config.cacheScheduler.batchThreshold,
+                },
+                pricing: mergePricing(config.pricing, result.data.pricing as any),
                 protectedFilePatterns: [
                     ...new Set([
                         ...config.protectedFilePatterns,
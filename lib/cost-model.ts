@@ -0,0 +1,142 @@
+import type { AssistantMessage } from "@opencode-ai/sdk/v2"
+import type { ModelPricing, PluginConfig } from "./config"
+import type { WithParts } from "./state"
+import { matchesGlob } from "./protected-file-patterns"
+import { formatUsd } from "./ui/utils"
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000
+
+export interface ResolvedPricing extends ModelPricing {
+    key: string
+}
+
+/**
+ * Finds the pricing of a model from `pricing.models`. Keys are
+ * `providerID/modelID` globs; an exact key wins, otherwise the first matching
+ * pattern in config order is used.
+ */
+export function resolvePricing(
+    config: PluginConfig,
+    providerId: string | undefined,
+    modelId: string | undefined,
+): ResolvedPricing | undefined {
+    if (!config.pricing.enabled || !providerId || !modelId) {
+        return undefined
+    }
+
+    const target = `${providerId}/${modelId}`
+    const models = config.pricing.models
+    if (models[target]) {
+        return { key: target, ...models[target] }
+    }
+
+    for (const [key, pricing] of Object.entries(models)) {
+        if (matchesGlob(target, key)) {
+            return { key, ...pricing }
+        }
+    }
+    return undefined
+}
+
+export function getLastAssistantWithTokens(messages: WithParts[]): AssistantMessage | undefined {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const info = messages[i].info
+        if (info.role === "assistant" && (info as AssistantMessage).tokens?.output > 0) {
+            return info as AssistantMessage
+        }
+    }
+    return undefined
+}
+
+/**
+ * Resolves the pricing of the model that served the latest response.
+ */
+export function resolveSessionPricing(
+    config: PluginConfig,
+    messages: WithParts[],
+): ResolvedPricing | undefined {
+    const last = getLastAssistantWithTokens(messages)
+    return last ? resolvePricing(config, last.providerID, last.modelID) : undefined
+}
+
+function inputPrice(pricing: ModelPricing): number {
+    return (pricing.input ?? 0) / TOKENS_PER_PRICE_UNIT
+}
+
+function cacheReadPrice(pricing: ModelPricing): number {
+    return (pricing.cacheRead ?? pricing.input ?? 0) / TOKENS_PER_PRICE_UNIT
+}
+
+function cacheWritePrice(pricing: ModelPricing): number {
+    return (pricing.cacheWrite ?? pricing.input ?? 0) / TOKENS_PER_PRICE_UNIT
+}
+
+/**
+ * Estimated dollars saved on one request by not sending the given tokens.
+ * Requests billed per request cost the same whatever their size.
+ */
+export function estimateRequestSavings(
+    pricing: ModelPricing,
+    tokens: number,
+    cached: boolean,
+): number {
+    if (pricing.perRequest) {
+        return 0
+    }
+    return tokens * (cached ? cacheReadPrice(pricing) : inputPrice(pricing))
+}
+
+/**
+ * Estimated dollars lost when a cached prefix has to be written again
+ * instead of being read from the cache.
+ */
+export function estimateCacheBreakCost(pricing: ModelPricing, cachedTokens: number): number {
+    if (pricing.perRequest) {
+        return 0
+    }
+    return cachedTokens * Math.max(0, cacheWritePrice(pricing) - cacheReadPrice(pricing))
+}
+
+/**
+ * Checks whether pruning the pending tokens pays back the cache break it
+ * causes within `pricing.breakEvenRequests` requests.
+ */
+export function isPruneWorthCacheBreak(
+    config: PluginConfig,
+    pricing: ModelPricing,
+    pendingTokens: number,
+    cachedTokens: number,
+): boolean {
+    const breakCost = estimateCacheBreakCost(pricing, cachedTokens)
+    if (breakCost === 0) {
+        return true
+    }
+    const savingsPerRequest = estimateRequestSavings(pricing, pendingTokens, true)
+    return savingsPerRequest * config.pricing.breakEvenRequests >= breakCost
+}
+
+/**
+ * Cost note appended to the compress nudge, so the model can weigh the
+ * one-off cache break of compressing against the per-request cost of the
+ * current context.
+ */
+export function formatCompressCostNote(
+    config: PluginConfig,
+    messages: WithParts[],
+): string | undefined {
+    const pricing = resolveSessionPricing(config, messages)
+    const last = getLastAssistantWithTokens(messages)
+    if (!pricing || pricing.perRequest || !last) {
+        return undefined
+    }
+
+    const cachedTokens = (last.tokens.cache?.read ?? 0) + (last.tokens.cache?.write ?? 0)
+    const contextTokens = cachedTokens + (last.tokens.input ?? 0)
+    const perRequest = estimateRequestSavings(pricing, contextTokens, cachedTokens > 0)
+    const breakCost = estimateCacheBreakCost(pricing, cachedTokens)
+
+    return [
+        "COST IMPACT",
+        `Each request currently costs ~${formatUsd(perRequest)} in input for the context. Compressing invalidates the prompt cache once (~${formatUsd(breakCost)}) and every later request gets cheaper.`,
+    ].join("\n")
+}
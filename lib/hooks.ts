@@ -2,15 +2,39 @@ import type { SessionState, WithParts } from "./state"
 import type { Logger } from "./logger"
 import type { PluginConfig } from "./config"
 import { syncToolCache } from "./state/tool-cache"
-import { deduplicate, supersedeWrites, purgeErrors } from "./strategies"
+import { syncAttachmentCache } from "./state/attachment-cache"
+import { archivePrunedContent } from "./state/archive"
+import {
+    deduplicate,
+    retainLatestSnapshots,
+    readCoverage,
+    supersedeWrites,
+    staleReads,
+    diskChanges,
+    purgeErrors,
+    retryCollapse,
+    applyRules,
+    smartTruncate,
+    decay,
+    pruneReasoning,
+    pruneAttachments,
+    tokenBudget,
+    loadCustomStrategies,
+    runCustomStrategies,
+    collectRuleProtections,
+    createPruneCheckpoint,
+    schedulePrunes,
+    trackCacheBreaks,
+} from "./strategies"
 import { prune, insertPruneToolContext } from "./messages"
-import { buildToolIdList } from "./messages/utils"
+import { buildMessageBlocks, buildToolIdList } from "./messages/utils"
 import { checkSession } from "./state"
-import { renderSystemPrompt } from "./prompts"
+import { getToolFlags, renderSystemPrompt } from "./prompts"
 import { handleStatsCommand } from "./commands/stats"
 import { handleContextCommand } from "./commands/context"
 import { handleHelpCommand } from "./commands/help"
 import { handleSweepCommand } from "./commands/sweep"
+import { handleUncompressCommand } from "./commands/uncompress"
 import { ensureSessionInitialized } from "./state/state"
 
 const INTERNAL_AGENT_SIGNATURES = [
@@ -43,11 +67,7 @@ export function createSystemPromptHandler(
             return
         }
 
-        const flags = {
-            prune: config.tools.prune.permission !== "deny",
-            distill: config.tools.distill.permission !== "deny",
-            compress: config.tools.compress.permission !== "deny",
-        }
+        const flags = getToolFlags(config)
 
         if (!flags.prune && !flags.distill && !flags.compress) {
             return
@@ -62,7 +82,10 @@ export function createChatMessageTransformHandler(
     state: SessionState,
     logger: Logger,
     config: PluginConfig,
+    workingDirectory: string,
 ) {
+    const customStrategies = loadCustomStrategies(config, workingDirectory, logger)
+
     return async (input: {}, output: { messages: WithParts[] }) => {
         await checkSession(client, state, logger, output.messages)
 
@@ -70,12 +93,31 @@ export function createChatMessageTransformHandler(
             return
         }
 
-        syncToolCache(state, config, logger, output.messages)
+        syncToolCache(state, config, logger, output.messages, workingDirectory)
+        syncAttachmentCache(state, logger, output.messages)
         buildToolIdList(state, output.messages, logger)
+        buildMessageBlocks(state, output.messages, logger)
+        trackCacheBreaks(state, logger, config, output.messages)
 
+        collectRuleProtections(state, logger, config)
+        const checkpoint = createPruneCheckpoint(state)
         deduplicate(state, logger, config, output.messages)
+        retainLatestSnapshots(state, logger, config, output.messages)
+        readCoverage(state, logger, config, output.messages)
         supersedeWrites(state, logger, config, output.messages)
+        staleReads(state, logger, config, output.messages)
+        diskChanges(state, logger, config, output.messages)
         purgeErrors(state, logger, config, output.messages)
+        await retryCollapse(client, state, logger, config, output.messages, workingDirectory)
+        applyRules(state, logger, config, output.messages)
+        smartTruncate(state, logger, config, output.messages)
+        decay(state, logger, config, output.messages)
+        pruneReasoning(state, logger, config, output.messages)
+        pruneAttachments(state, logger, config, output.messages)
+        await tokenBudget(client, state, logger, config, output.messages, workingDirectory)
+        await runCustomStrategies(await customStrategies, state, logger, config, output.messages)
+        schedulePrunes(state, logger, config, output.messages, checkpoint)
+        archivePrunedContent(state, logger, config, output.messages)
 
         prune(state, logger, config, output.messages)
 
@@ -150,6 +192,18 @@ export function createCommandExecuteHandler(
                 throw new Error("__DCP_SWEEP_HANDLED__")
             }
 
+            if (subcommand === "uncompress") {
+                await handleUncompressCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    args: _subArgs,
+                })
+                throw new Error("__DCP_UNCOMPRESS_HANDLED__")
+            }
+
             await handleHelpCommand({
                 client,
                 state,
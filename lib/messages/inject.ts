@@ -2,30 +2,19 @@ import type { SessionState, WithParts } from "../state"
 import type { Logger } from "../logger"
 import type { PluginConfig } from "../config"
 import type { UserMessage } from "@opencode-ai/sdk/v2"
-import { renderNudge, renderCompressNudge } from "../prompts"
+import { getToolFlags, renderNudge, renderCompressNudge } from "../prompts"
 import {
     extractParameterKey,
     createSyntheticTextPart,
+    formatPreview,
+    getMessagePreview,
     createSyntheticToolPart,
     isIgnoredUserMessage,
 } from "./utils"
 import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
 import { getLastUserMessage, isMessageCompacted } from "../shared-utils"
-import { getCurrentTokenUsage } from "../strategies/utils"
-
-function parsePercentageString(value: string, total: number): number | undefined {
-    if (!value.endsWith("%")) return undefined
-    const percent = parseFloat(value.slice(0, -1))
-
-    if (isNaN(percent)) {
-        return undefined
-    }
-
-    const roundedPercent = Math.round(percent)
-    const clampedPercent = Math.max(0, Math.min(100, roundedPercent))
-
-    return Math.round((clampedPercent / 100) * total)
-}
+import { getCurrentTokenUsage, isPinned, resolveContextLimit } from "../strategies/utils"
+import { formatCompressCostNote } from "../cost-model"
 
 // XML wrappers
 export const wrapPrunableTools = (content: string): string => {
@@ -35,10 +24,15 @@ ${content}
 </prunable-tools>`
 }
 
-export const wrapCompressContext = (messageCount: number): string => `<compress-context>
+export const wrapCompressContext = (
+    messageCount: number,
+    blocks: string,
+): string => `<compress-context>
 Compress available. Conversation: ${messageCount} messages.
 Compress collapses completed task sequences or exploration phases into summaries.
-Uses text boundaries [startString, endString, topic, summary].
+Address a range by message IDs [startId, endId, topic, summary], or by text boundaries [startString, endString, topic, summary].
+Each line reads \`ID: turn, role - preview\`. Older messages are grouped as \`startID-endID: turns, count\`.
+${blocks}
 </compress-context>`
 
 export const wrapCooldownMessage = (flags: {
@@ -66,23 +60,6 @@ Context management was just performed. Do NOT use the ${toolName} again. A fresh
 </context-info>`
 }
 
-const resolveContextLimit = (config: PluginConfig, state: SessionState): number | undefined => {
-    const configLimit = config.tools.settings.contextLimit
-
-    if (typeof configLimit === "string") {
-        if (configLimit.endsWith("%")) {
-            if (state.modelContextLimit === undefined) {
-                return undefined
-            }
-            return parsePercentageString(configLimit, state.modelContextLimit)
-        }
-
-        return undefined
-    }
-
-    return configLimit
-}
-
 const shouldInjectCompressNudge = (
     config: PluginConfig,
     state: SessionState,
@@ -102,11 +79,7 @@ const shouldInjectCompressNudge = (
 }
 
 const getNudgeString = (config: PluginConfig): string => {
-    const flags = {
-        prune: config.tools.prune.permission !== "deny",
-        distill: config.tools.distill.permission !== "deny",
-        compress: config.tools.compress.permission !== "deny",
-    }
+    const flags = getToolFlags(config)
 
     if (!flags.prune && !flags.distill && !flags.compress) {
         return ""
@@ -123,9 +96,85 @@ const getCooldownMessage = (config: PluginConfig): string => {
     })
 }
 
+// Messages listed one per line with a preview; older ones are grouped by ID range
+// so the list stays short in long sessions
+const COMPRESS_CONTEXT_RECENT_MESSAGES = 30
+
+type CompressContextEntry =
+    { kind: "summary"; line: string } | { kind: "message"; id: number; turn: number; line: string }
+
+const formatMessageRun = (run: { id: number; turn: number; line: string }[]): string => {
+    if (run.length === 1) {
+        return run[0].line
+    }
+    const first = run[0]
+    const last = run[run.length - 1]
+    const turns =
+        first.turn === last.turn ? `turn ${first.turn}` : `turns ${first.turn}-${last.turn}`
+    return `${first.id}-${last.id}: ${turns}, ${run.length} messages`
+}
+
 const buildCompressContext = (state: SessionState, messages: WithParts[]): string => {
     const messageCount = messages.filter((msg) => !isMessageCompacted(state, msg)).length
-    return wrapCompressContext(messageCount)
+    const renderedById = new Map(messages.map((msg) => [msg.info.id, msg]))
+
+    const entries: CompressContextEntry[] = []
+    state.messageBlocks.forEach((block, id) => {
+        // A compressed range is listed once, under the ID of its first message
+        if (state.prune.messageIds.has(block.messageId)) {
+            const summary = state.compressSummaries.find(
+                (s) => s.anchorMessageId === block.messageId,
+            )
+            if (summary) {
+                const operation =
+                    summary.operationId !== undefined ? ` #${summary.operationId}` : ""
+                const topic = summary.topic ? ` (${summary.topic})` : ""
+                entries.push({
+                    kind: "summary",
+                    line: `${id}: turn ${block.turn}, compressed${operation}${topic} - ${formatPreview(summary.summary)}`,
+                })
+            }
+            return
+        }
+
+        const msg = renderedById.get(block.messageId)
+        if (
+            !msg ||
+            msg.info.time.created < state.lastCompaction ||
+            (msg.info.role === "user" && isIgnoredUserMessage(msg))
+        ) {
+            return
+        }
+        entries.push({
+            kind: "message",
+            id,
+            turn: block.turn,
+            line: `${id}: turn ${block.turn}, ${msg.info.role} - ${getMessagePreview(msg)}`,
+        })
+    })
+
+    const messageEntries = entries.filter((entry) => entry.kind === "message")
+    const groupedCount = Math.max(0, messageEntries.length - COMPRESS_CONTEXT_RECENT_MESSAGES)
+    const grouped = new Set(messageEntries.slice(0, groupedCount))
+
+    const lines: string[] = []
+    let run: { id: number; turn: number; line: string }[] = []
+    for (const entry of entries) {
+        if (entry.kind === "message" && grouped.has(entry)) {
+            run.push(entry)
+            continue
+        }
+        if (run.length > 0) {
+            lines.push(formatMessageRun(run))
+            run = []
+        }
+        lines.push(entry.line)
+    }
+    if (run.length > 0) {
+        lines.push(formatMessageRun(run))
+    }
+
+    return wrapCompressContext(messageCount, lines.join("\n"))
 }
 
 const buildPrunableToolsList = (
@@ -142,7 +191,10 @@ const buildPrunableToolsList = (
         }
 
         const allProtectedTools = config.tools.settings.protectedTools
-        if (allProtectedTools.includes(toolParameterEntry.tool)) {
+        if (
+            allProtectedTools.includes(toolParameterEntry.tool) ||
+            state.ruleProtectedToolIds.has(toolCallId)
+        ) {
             return
         }
 
@@ -170,7 +222,9 @@ const buildPrunableToolsList = (
             toolParameterEntry.tokenCount !== undefined
                 ? ` (~${toolParameterEntry.tokenCount} tokens)`
                 : ""
-        lines.push(`${numericId}: ${description}${tokenSuffix}`)
+        // Pinned outputs stay listed so the model can see they are kept
+        const pinnedSuffix = isPinned(state, toolCallId) ? " [pinned]" : ""
+        lines.push(`${numericId}: ${description}${tokenSuffix}${pinnedSuffix}`)
         logger.debug(
             `Prunable tool found - ID: ${numericId}, Tool: ${toolParameterEntry.tool}, Call ID: ${toolCallId}`,
         )
@@ -221,6 +275,10 @@ export const insertPruneToolContext = (
         if (shouldInjectCompressNudge(config, state, messages)) {
             logger.info("Inserting compress nudge - token usage exceeds contextLimit")
             contentParts.push(renderCompressNudge())
+            const costNote = formatCompressCostNote(config, messages)
+            if (costNote) {
+                contentParts.push(costNote)
+            }
         } else if (
             config.tools.settings.nudgeEnabled &&
             state.nudgeCounter >= config.tools.settings.nudgeFrequency
@@ -4,11 +4,25 @@ import type { PluginConfig } from "../config"
 import { isMessageCompacted, getLastUserMessage } from "../shared-utils"
 import { createSyntheticUserMessage, COMPRESS_SUMMARY_PREFIX } from "./utils"
 import type { UserMessage } from "@opencode-ai/sdk/v2"
+import {
+    MUTATING_TOOLS,
+    getStructuredDistillation,
+    isSignedReasoningPart,
+    renderDistillation,
+    renderPrunedReasoning,
+    renderTrimmedOutput,
+    truncateHeadTail,
+} from "../strategies/utils"
+import { extractToolPartOutput } from "../smart-truncate"
+import { getAttachmentInfo, type AttachmentInfo } from "../state/attachment-cache"
+import { formatBytes } from "../ui/utils"
 
 const PRUNED_TOOL_OUTPUT_REPLACEMENT =
     "[Output removed to save context - information superseded or no longer needed]"
 const PRUNED_TOOL_ERROR_INPUT_REPLACEMENT = "[input removed due to failed tool call]"
 const PRUNED_QUESTION_INPUT_REPLACEMENT = "[questions removed - see output for user's answers]"
+const CHANGED_ON_DISK_NOTE =
+    "[File changed on disk since this read - content below may be outdated, read the file again before relying on it]"
 
 export const prune = (
     state: SessionState,
@@ -18,9 +32,16 @@ export const prune = (
 ): void => {
     filterCompressedRanges(state, logger, messages)
     pruneFullTool(state, logger, messages)
-    pruneToolOutputs(state, logger, messages)
+    pruneToolOutputs(state, logger, config, messages)
+    extractToolOutputs(state, logger, messages)
+    trimToolOutputs(state, logger, messages)
+    truncateToolOutputs(state, logger, messages)
+    annotateChangedOnDisk(state, logger, messages)
     pruneToolInputs(state, logger, messages)
+    renderDistillInputs(state, logger, messages)
     pruneToolErrors(state, logger, messages)
+    pruneReasoningParts(state, logger, messages)
+    pruneAttachmentParts(state, logger, messages)
 }
 
 const pruneFullTool = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
@@ -41,7 +62,10 @@ const pruneFullTool = (state: SessionState, logger: Logger, messages: WithParts[
             if (!state.prune.toolIds.has(part.callID)) {
                 continue
             }
-            if (part.tool !== "edit" && part.tool !== "write") {
+            if (
+                !MUTATING_TOOLS.includes(part.tool) &&
+                !state.prune.collapsedToolIds.has(part.callID)
+            ) {
                 continue
             }
 
@@ -68,7 +92,14 @@ const pruneFullTool = (state: SessionState, logger: Logger, messages: WithParts[
     }
 }
 
-const pruneToolOutputs = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+const pruneToolOutputs = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const restoreEnabled = config.tools.restore.permission !== "deny"
+
     for (const msg of messages) {
         if (isMessageCompacted(state, msg)) {
             continue
@@ -85,11 +116,145 @@ const pruneToolOutputs = (state: SessionState, logger: Logger, messages: WithPar
             if (part.state.status !== "completed") {
                 continue
             }
-            if (part.tool === "question" || part.tool === "edit" || part.tool === "write") {
+            if (part.tool === "question" || MUTATING_TOOLS.includes(part.tool)) {
+                continue
+            }
+
+            // The restore ID lets the model bring the output back later
+            const restoreId = state.toolIdList.indexOf(part.callID)
+            part.state.output =
+                restoreEnabled && restoreId !== -1
+                    ? `${PRUNED_TOOL_OUTPUT_REPLACEMENT} (restore ID: ${restoreId})`
+                    : PRUNED_TOOL_OUTPUT_REPLACEMENT
+        }
+    }
+}
+
+const extractToolOutputs = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    if (state.prune.extractedToolIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool") {
+                continue
+            }
+            if (state.prune.toolIds.has(part.callID)) {
+                continue
+            }
+            if (!state.prune.extractedToolIds.has(part.callID)) {
+                continue
+            }
+            if (part.state.status !== "completed") {
                 continue
             }
 
-            part.state.output = PRUNED_TOOL_OUTPUT_REPLACEMENT
+            const extract = extractToolPartOutput(part)
+            if (extract !== undefined) {
+                part.state.output = extract
+            }
+        }
+    }
+}
+
+const trimToolOutputs = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    if (state.prune.trimmedToolIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool") {
+                continue
+            }
+            if (state.prune.toolIds.has(part.callID)) {
+                continue
+            }
+            const ranges = state.prune.trimmedToolIds.get(part.callID)
+            if (ranges === undefined) {
+                continue
+            }
+            if (part.state.status !== "completed" || typeof part.state.output !== "string") {
+                continue
+            }
+
+            part.state.output = renderTrimmedOutput(part.state.output, ranges)
+        }
+    }
+}
+
+const truncateToolOutputs = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    if (state.prune.truncatedToolIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool") {
+                continue
+            }
+            if (state.prune.toolIds.has(part.callID)) {
+                continue
+            }
+            const keepLines = state.prune.truncatedToolIds.get(part.callID)
+            if (keepLines === undefined) {
+                continue
+            }
+            if (part.state.status !== "completed" || typeof part.state.output !== "string") {
+                continue
+            }
+
+            part.state.output = truncateHeadTail(part.state.output, keepLines)
+        }
+    }
+}
+
+const annotateChangedOnDisk = (
+    state: SessionState,
+    logger: Logger,
+    messages: WithParts[],
+): void => {
+    if (state.prune.changedOnDiskToolIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool") {
+                continue
+            }
+            if (state.prune.toolIds.has(part.callID)) {
+                continue
+            }
+            if (!state.prune.changedOnDiskToolIds.has(part.callID)) {
+                continue
+            }
+            if (part.state.status !== "completed" || typeof part.state.output !== "string") {
+                continue
+            }
+
+            part.state.output = `${CHANGED_ON_DISK_NOTE}\n${part.state.output}`
         }
     }
 }
@@ -122,6 +287,40 @@ const pruneToolInputs = (state: SessionState, logger: Logger, messages: WithPart
     }
 }
 
+// Structured distill targets are shown in the same compact text form as free-form ones
+const renderDistillInputs = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || part.tool !== "distill") {
+                continue
+            }
+            if (part.state.status !== "completed") {
+                continue
+            }
+            const targets = part.state.input?.targets
+            if (!Array.isArray(targets)) {
+                continue
+            }
+
+            part.state.input.targets = targets.map((target: any) => {
+                const structured = getStructuredDistillation(target)
+                if (!structured) {
+                    return target
+                }
+                return {
+                    id: target.id,
+                    distillation: renderDistillation(target.distillation, structured),
+                }
+            })
+        }
+    }
+}
+
 const pruneToolErrors = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
     for (const msg of messages) {
         if (isMessageCompacted(state, msg)) {
@@ -153,6 +352,80 @@ const pruneToolErrors = (state: SessionState, logger: Logger, messages: WithPart
     }
 }
 
+const pruneReasoningParts = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    if (state.prune.reasoningPartIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        const partsToRemove: string[] = []
+
+        for (const part of parts) {
+            if (part.type !== "reasoning") {
+                continue
+            }
+            const keepLines = state.prune.reasoningPartIds.get(part.id)
+            if (keepLines === undefined) {
+                continue
+            }
+
+            // Signed reasoning must stay verbatim, so it is dropped instead of altered
+            if (isSignedReasoningPart(part)) {
+                partsToRemove.push(part.id)
+                continue
+            }
+
+            part.text = renderPrunedReasoning(part.text, keepLines)
+        }
+
+        if (partsToRemove.length > 0) {
+            msg.parts = parts.filter((part) => !partsToRemove.includes(part.id))
+        }
+    }
+}
+
+const formatAttachmentDescriptor = (info: AttachmentInfo): string => {
+    const details = info.size !== undefined ? `${info.mime}, ${formatBytes(info.size)}` : info.mime
+    return `[Attachment removed to save context: ${info.filename} (${details})]`
+}
+
+const pruneAttachmentParts = (state: SessionState, logger: Logger, messages: WithParts[]): void => {
+    if (state.prune.attachmentPartIds.size === 0) {
+        return
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        if (msg.info.role !== "user") {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        msg.parts = parts.map((part) => {
+            if (part.type !== "file" || !state.prune.attachmentPartIds.has(part.id)) {
+                return part
+            }
+            return {
+                id: part.id,
+                sessionID: part.sessionID,
+                messageID: part.messageID,
+                type: "text" as const,
+                text: formatAttachmentDescriptor(
+                    state.attachments.get(part.id) ?? getAttachmentInfo(part),
+                ),
+                synthetic: true,
+            }
+        })
+    }
+}
+
 const filterCompressedRanges = (
     state: SessionState,
     logger: Logger,
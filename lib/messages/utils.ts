@@ -1,13 +1,16 @@
 import { ulid } from "ulid"
 import { isMessageCompacted } from "../shared-utils"
 import { Logger } from "../logger"
-import type { SessionState, WithParts } from "../state"
+import type { MessageBlock, SessionState, WithParts } from "../state"
 import type { UserMessage } from "@opencode-ai/sdk/v2"
 
 export const COMPRESS_SUMMARY_PREFIX = "[Compressed conversation block]\n\n"
 
 const generateUniqueId = (prefix: string): string => `${prefix}_${ulid()}`
 
+// Length of the message previews listed in <compress-context>
+const MESSAGE_PREVIEW_MAX_CHARS = 60
+
 const isGeminiModel = (modelID: string): boolean => {
     const lowerModelID = modelID.toLowerCase()
     return lowerModelID.includes("gemini")
@@ -249,6 +252,57 @@ export function buildToolIdList(
     return toolIds
 }
 
+/**
+ * Numbers the messages of the session so that compress can address a range by
+ * message IDs. Every message is numbered, compacted and compressed ones too, so
+ * a message keeps its ID as the session grows; hiding them is left to rendering.
+ */
+export function buildMessageBlocks(
+    state: SessionState,
+    messages: WithParts[],
+    logger: Logger,
+): MessageBlock[] {
+    const blocks: MessageBlock[] = []
+    let turnCounter = 0
+    for (const msg of messages) {
+        // Turns are counted like countTurns, so they match state.currentTurn
+        if (!isMessageCompacted(state, msg)) {
+            const parts = Array.isArray(msg.parts) ? msg.parts : []
+            turnCounter += parts.filter((part) => part.type === "step-start").length
+        }
+        blocks.push({ messageId: msg.info.id, turn: turnCounter })
+    }
+    state.messageBlocks = blocks
+    return blocks
+}
+
+export const formatPreview = (text: string): string => {
+    const singleLine = text.replace(/\s+/g, " ").trim()
+    const preview =
+        singleLine.length > MESSAGE_PREVIEW_MAX_CHARS
+            ? singleLine.slice(0, MESSAGE_PREVIEW_MAX_CHARS - 3) + "..."
+            : singleLine
+    return `"${preview}"`
+}
+
+/**
+ * Short single-line preview of a message: its first text, or the tools it
+ * called.
+ */
+export const getMessagePreview = (msg: WithParts): string => {
+    const parts = Array.isArray(msg.parts) ? msg.parts : []
+    const text = parts.find((part) => part.type === "text" && !part.synthetic && part.text?.trim())
+    if (text?.type === "text") {
+        return formatPreview(text.text)
+    }
+
+    const tools = parts.flatMap((part) => (part.type === "tool" ? [part.tool] : []))
+    if (tools.length > 0) {
+        return `tools: ${[...new Set(tools)].join(", ")}`
+    }
+    return "(no text)"
+}
+
 export const isIgnoredUserMessage = (message: WithParts): boolean => {
     const parts = Array.isArray(message.parts) ? message.parts : []
     if (parts.length === 0) {
@@ -1,3 +1,4 @@
+import type { PluginConfig } from "../config"
 // Generated prompts (from .md files via scripts/generate-prompts.ts)
 import { SYSTEM as SYSTEM_PROMPT } from "./_codegen/system.generated"
 import { NUDGE } from "./_codegen/nudge.generated"
@@ -5,15 +6,49 @@ import { COMPRESS_NUDGE } from "./_codegen/compress-nudge.generated"
 import { PRUNE as PRUNE_TOOL_SPEC } from "./_codegen/prune.generated"
 import { DISTILL as DISTILL_TOOL_SPEC } from "./_codegen/distill.generated"
 import { COMPRESS as COMPRESS_TOOL_SPEC } from "./_codegen/compress.generated"
+import { RESTORE as RESTORE_TOOL_SPEC } from "./_codegen/restore.generated"
+import { RECALL as RECALL_TOOL_SPEC } from "./_codegen/recall.generated"
+import { UNCOMPRESS as UNCOMPRESS_TOOL_SPEC } from "./_codegen/uncompress.generated"
+import { PIN as PIN_TOOL_SPEC } from "./_codegen/pin.generated"
+import { TRIM as TRIM_TOOL_SPEC } from "./_codegen/trim.generated"
 
 export interface ToolFlags {
     distill: boolean
     compress: boolean
     prune: boolean
+    restore: boolean
+    uncompress: boolean
+    trim: boolean
+    pin: boolean
+    recall: boolean
+}
+
+export function getToolFlags(config: PluginConfig): ToolFlags {
+    return {
+        prune: config.tools.prune.permission !== "deny",
+        distill: config.tools.distill.permission !== "deny",
+        compress: config.tools.compress.permission !== "deny",
+        restore: config.tools.restore.permission !== "deny",
+        uncompress:
+            config.tools.compress.permission !== "deny" &&
+            config.tools.uncompress.permission !== "deny",
+        trim: config.tools.trim.permission !== "deny",
+        pin: config.tools.pin.permission !== "deny",
+        recall: config.tools.recall.permission !== "deny",
+    }
 }
 
 function processConditionals(template: string, flags: ToolFlags): string {
-    const tools = ["distill", "compress", "prune"] as const
+    const tools = [
+        "distill",
+        "compress",
+        "prune",
+        "restore",
+        "uncompress",
+        "trim",
+        "pin",
+        "recall",
+    ] as const
     let result = template
     // Strip comments: // ... //
     result = result.replace(/\/\/.*?\/\//g, "")
@@ -42,6 +77,11 @@ const PROMPTS: Record<string, string> = {
     "prune-tool-spec": PRUNE_TOOL_SPEC,
     "distill-tool-spec": DISTILL_TOOL_SPEC,
     "compress-tool-spec": COMPRESS_TOOL_SPEC,
+    "restore-tool-spec": RESTORE_TOOL_SPEC,
+    "recall-tool-spec": RECALL_TOOL_SPEC,
+    "uncompress-tool-spec": UNCOMPRESS_TOOL_SPEC,
+    "pin-tool-spec": PIN_TOOL_SPEC,
+    "trim-tool-spec": TRIM_TOOL_SPEC,
 }
 
 export function loadPrompt(name: string, vars?: Record<string, string>): string {
@@ -56,3 +96,10 @@ export function loadPrompt(name: string, vars?: Record<string, string>): string
     }
     return content
 }
+
+/**
+ * Tool description with the mentions of disabled tools left out.
+ */
+export function renderToolSpec(name: string, flags: ToolFlags): string {
+    return processConditionals(loadPrompt(name), flags)
+}
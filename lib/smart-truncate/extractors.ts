@@ -0,0 +1,71 @@
+/**
+ * Output shapes recognized by the smart truncate subsystem.
+ * Each extractor decides from the command string and output text whether it
+ * applies, and which lines of the output carry meaning worth keeping.
+ */
+export interface OutputExtractor {
+    kind: string
+    label: string
+    detect: (command: string, output: string) => boolean
+    isImportant: (line: string) => boolean
+}
+
+const typescript: OutputExtractor = {
+    kind: "typescript",
+    label: "TypeScript diagnostics",
+    detect: (command, output) => /\b(?:vue-)?tsc\b/.test(command) || /error TS\d+:/.test(output),
+    isImportant: (line) => /\b(?:error|warning) TS\d+|Found \d+ errors?/.test(line),
+}
+
+const eslint: OutputExtractor = {
+    kind: "eslint",
+    label: "lint diagnostics",
+    detect: (command, output) =>
+        (/\beslint\b|\blint\b/.test(command) &&
+            /^\s+\d+:\d+\s+(?:error|warning)\b/m.test(output)) ||
+        /✖ \d+ problems?/.test(output),
+    isImportant: (line) =>
+        /^\s+\d+:\d+\s+error\b/.test(line) ||
+        /^(?:\/|[A-Za-z]:\\|\.{0,2}\/)?\S+\.(?:[cm]?[jt]sx?|vue|svelte|astro)$/.test(line) ||
+        /✖ \d+ problems?|\d+ errors?, \d+ warnings?/.test(line),
+}
+
+const tests: OutputExtractor = {
+    kind: "tests",
+    label: "test results",
+    detect: (command, output) =>
+        /\b(?:jest|vitest|pytest|mocha|ava|go test|cargo test|bun test)\b|node\s.*--test|\b(?:npm|pnpm|yarn)(?: run)? test\b/.test(
+            command,
+        ) ||
+        /^\s*(?:Tests?|Test Suites|Test Files):\s+\d+|^=+ .*\b(?:passed|failed)\b.* =+$|^# (?:pass|fail) \d+/m.test(
+            output,
+        ),
+    isImportant: (line) =>
+        /\b(?:FAIL|FAILED|ERROR)\b|✕|✗|×|●|^\s*not ok\b|AssertionError|\bError:|^\s*(?:Expected|Received)\b/.test(
+            line,
+        ) ||
+        /^\s*(?:Tests?|Test Suites|Test Files|Snapshots|Time):|^# (?:tests|suites|pass|fail|skipped|todo) \d+|\b\d+ (?:passed|failed|skipped)\b/.test(
+            line,
+        ),
+}
+
+const packageInstall: OutputExtractor = {
+    kind: "install",
+    label: "package install log",
+    detect: (command) => /\b(?:npm|pnpm|yarn|bun) (?:install|i|ci|add)\b/.test(command),
+    isImportant: (line) =>
+        /npm ERR!|npm error|ERR_PNPM|^error\b|\b(?:added|removed|changed) \d+ packages?|vulnerabilit|up to date|Done in/i.test(
+            line,
+        ),
+}
+
+const stackTrace: OutputExtractor = {
+    kind: "stacktrace",
+    label: "stack trace",
+    detect: (_command, output) =>
+        /^\s+at .+[:(]\d+/m.test(output) || /Traceback \(most recent call last\)/.test(output),
+    isImportant: (line) => /\w*(?:Error|Exception)\b|Traceback|panicked at/.test(line),
+}
+
+// Order matters: the first extractor that detects the output wins
+export const EXTRACTORS: OutputExtractor[] = [typescript, eslint, tests, packageInstall, stackTrace]
@@ -0,0 +1,117 @@
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted } from "../shared-utils"
+import { countTokens } from "../strategies/utils"
+import { EXTRACTORS, type OutputExtractor } from "./extractors"
+
+export type { OutputExtractor } from "./extractors"
+
+const MAX_EXTRACT_LINES = 60
+const MAX_STACK_FRAMES = 3
+// Extracts keeping more than this share of the original lines are not worth it
+const MAX_KEPT_RATIO = 0.6
+
+const STACK_FRAME_REGEX = /^\s+at .+|^\s+File ".+", line \d+/
+
+export function detectOutputKind(command: string, output: string): OutputExtractor | undefined {
+    return EXTRACTORS.find((extractor) => extractor.detect(command, output))
+}
+
+/**
+ * Reduces a command output to its meaningful lines (diagnostics, failures,
+ * summaries) based on the recognized output shape. Stack traces following a
+ * kept line are shortened to their first frames.
+ * Returns undefined when the output is not recognized or cannot be reduced.
+ */
+export function extractMeaningfulOutput(command: string, output: string): string | undefined {
+    const extractor = detectOutputKind(command, output)
+    if (!extractor) {
+        return undefined
+    }
+
+    const lines = output.split("\n")
+    const kept: string[] = []
+    let matched = 0
+    let framesInTrace = -1
+
+    for (const line of lines) {
+        if (STACK_FRAME_REGEX.test(line)) {
+            if (framesInTrace >= 0 && framesInTrace < MAX_STACK_FRAMES) {
+                kept.push(line)
+                framesInTrace++
+            }
+            continue
+        }
+
+        if (!extractor.isImportant(line)) {
+            framesInTrace = -1
+            continue
+        }
+
+        matched++
+        framesInTrace = 0
+        if (kept.length < MAX_EXTRACT_LINES) {
+            kept.push(line)
+        }
+    }
+
+    if (matched === 0 || kept.length > lines.length * MAX_KEPT_RATIO) {
+        return undefined
+    }
+
+    const header = `[Extracted ${kept.length} of ${lines.length} lines from ${extractor.label} - remaining output removed to save context]`
+    const overflow =
+        matched > kept.length
+            ? [`[... ${matched - kept.length} more matching lines omitted ...]`]
+            : []
+
+    return [header, ...kept, ...overflow].join("\n")
+}
+
+/**
+ * Extracts the meaningful output of a completed bash tool part.
+ */
+export function extractToolPartOutput(part: any): string | undefined {
+    if (part?.type !== "tool" || part.tool !== "bash") {
+        return undefined
+    }
+    if (part.state?.status !== "completed" || typeof part.state.output !== "string") {
+        return undefined
+    }
+
+    const command = typeof part.state.input?.command === "string" ? part.state.input.command : ""
+    return extractMeaningfulOutput(command, part.state.output)
+}
+
+/**
+ * Returns the tokens saved per tool call ID by replacing the output with its
+ * extract. IDs whose output cannot be extracted are left out.
+ */
+export function calculateExtractionSavings(
+    state: SessionState,
+    messages: WithParts[],
+    toolIds: string[],
+): Map<string, number> {
+    const savings = new Map<string, number>()
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || !toolIds.includes(part.callID)) {
+                continue
+            }
+            const extract = extractToolPartOutput(part)
+            if (extract === undefined || part.state.status !== "completed") {
+                continue
+            }
+            savings.set(
+                part.callID,
+                Math.max(0, countTokens(part.state.output) - countTokens(extract)),
+            )
+        }
+    }
+
+    return savings
+}
@@ -0,0 +1,277 @@
+/**
+ * Archive of pruned content for DCP plugin.
+ * Keeps the original text of everything DCP prunes or compresses so the model
+ * can search it with the recall tool instead of re-running tool calls.
+ * Storage location: ~/.local/share/opencode/storage/plugin/dcp/archive/{sessionId}.jsonl
+ */
+
+import * as fs from "fs/promises"
+import { existsSync } from "fs"
+import { join } from "path"
+import type { SessionState, WithParts } from "./types"
+import type { Logger } from "../logger"
+import type { PluginConfig } from "../config"
+import { STORAGE_DIR } from "./persistence"
+import { extractToolContent } from "../strategies/utils"
+import { extractParameterKey } from "../messages/utils"
+
+const ARCHIVE_DIR = join(STORAGE_DIR, "archive")
+
+// Lines returned per matching entry, and around each matching line
+const SNIPPET_MAX_LINES = 30
+const SNIPPET_CONTEXT_LINES = 2
+
+export type ArchiveReason =
+    "prune" | "collapse" | "extract" | "truncate" | "trim" | "reasoning" | "compress"
+
+export interface ArchiveEntry {
+    // Tool call ID, or part ID for message content
+    key: string
+    tool?: string
+    parameterKey?: string
+    turn: number
+    reason: ArchiveReason
+    text: string
+    archivedAt: string
+}
+
+export interface ArchiveMatch {
+    entry: ArchiveEntry
+    snippet: string
+    score: number
+}
+
+function getArchiveFilePath(sessionId: string): string {
+    return join(ARCHIVE_DIR, `${sessionId}.jsonl`)
+}
+
+export async function loadArchive(sessionId: string, logger: Logger): Promise<ArchiveEntry[]> {
+    try {
+        const filePath = getArchiveFilePath(sessionId)
+        if (!existsSync(filePath)) {
+            return []
+        }
+
+        const content = await fs.readFile(filePath, "utf-8")
+        const entries: ArchiveEntry[] = []
+        for (const line of content.split("\n")) {
+            if (line.trim() === "") {
+                continue
+            }
+            try {
+                const entry = JSON.parse(line) as ArchiveEntry
+                if (typeof entry?.key === "string" && typeof entry.text === "string") {
+                    entries.push(entry)
+                }
+            } catch {
+                logger.warn("Skipping malformed archive entry", { sessionId })
+            }
+        }
+        return entries
+    } catch (error: any) {
+        logger.warn("Failed to load archive", { sessionId, error: error?.message })
+        return []
+    }
+}
+
+async function appendArchiveEntries(
+    sessionId: string,
+    entries: ArchiveEntry[],
+    logger: Logger,
+): Promise<void> {
+    try {
+        if (!existsSync(ARCHIVE_DIR)) {
+            await fs.mkdir(ARCHIVE_DIR, { recursive: true })
+        }
+        const lines = entries.map((entry) => JSON.stringify(entry)).join("\n") + "\n"
+        await fs.appendFile(getArchiveFilePath(sessionId), lines, "utf-8")
+        logger.info("Archived pruned content", { sessionId, entries: entries.length })
+    } catch (error: any) {
+        logger.error("Failed to write archive", { sessionId, error: error?.message })
+    }
+}
+
+function getToolArchiveReason(state: SessionState, callId: string): ArchiveReason | undefined {
+    if (state.prune.collapsedToolIds.has(callId)) {
+        return "collapse"
+    }
+    if (state.prune.toolIds.has(callId)) {
+        return "prune"
+    }
+    if (state.prune.extractedToolIds.has(callId)) {
+        return "extract"
+    }
+    if (state.prune.truncatedToolIds.has(callId)) {
+        return "truncate"
+    }
+    if (state.prune.trimmedToolIds.has(callId)) {
+        return "trim"
+    }
+    return undefined
+}
+
+/**
+ * Archive the original content of newly pruned tool calls, reasoning parts and
+ * compressed messages. Must run before the history is rendered, while the
+ * messages still hold their original content. Only runs when the recall tool
+ * is available to search the archive.
+ */
+export function archivePrunedContent(
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void {
+    if (!state.sessionId || config.tools.recall.permission === "deny") {
+        return
+    }
+
+    const entries: ArchiveEntry[] = []
+    const archivedAt = new Date().toISOString()
+    let turnCounter = 0
+
+    for (const msg of messages) {
+        // Compressed messages count as compacted, so only the compaction cutoff is skipped
+        if (msg.info.time.created < state.lastCompaction) {
+            continue
+        }
+        const isCompressed = state.prune.messageIds.has(msg.info.id)
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type === "step-start") {
+                // Turns of compressed messages are not counted, as in countTurns
+                if (!isCompressed) {
+                    turnCounter++
+                }
+                continue
+            }
+
+            if (part.type === "tool") {
+                const reason = isCompressed ? "compress" : getToolArchiveReason(state, part.callID)
+                // Recalled content is already in the archive
+                if (!reason || part.tool === "recall" || state.archivedKeys.has(part.callID)) {
+                    continue
+                }
+                const text = extractToolContent(part).join("\n")
+                if (text === "") {
+                    continue
+                }
+                const input = part.state?.input ?? {}
+                entries.push({
+                    key: part.callID,
+                    tool: part.tool,
+                    parameterKey: extractParameterKey(part.tool, input) || undefined,
+                    turn: state.toolParameters.get(part.callID)?.turn ?? turnCounter,
+                    reason,
+                    text,
+                    archivedAt,
+                })
+                continue
+            }
+
+            const isPrunedReasoning =
+                part.type === "reasoning" && state.prune.reasoningPartIds.has(part.id)
+            const isCompressedText =
+                isCompressed && (part.type === "text" || part.type === "reasoning")
+            if (!isPrunedReasoning && !isCompressedText) {
+                continue
+            }
+            if (state.archivedKeys.has(part.id) || !part.text) {
+                continue
+            }
+            entries.push({
+                key: part.id,
+                turn: turnCounter,
+                reason: isCompressed ? "compress" : "reasoning",
+                text: part.text,
+                archivedAt,
+            })
+        }
+    }
+
+    if (entries.length === 0) {
+        return
+    }
+
+    for (const entry of entries) {
+        state.archivedKeys.add(entry.key)
+    }
+    appendArchiveEntries(state.sessionId, entries, logger).catch((err) =>
+        logger.error("Failed to archive pruned content", { error: err.message }),
+    )
+}
+
+/**
+ * Search archived entries by keywords or a path. Every term of the query must
+ * appear in the entry's tool name, parameter key or text. Matches are ranked by
+ * how often the terms occur, most recent first on ties.
+ */
+export function searchArchive(
+    entries: ArchiveEntry[],
+    query: string,
+    limit: number,
+): ArchiveMatch[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+    if (terms.length === 0) {
+        return []
+    }
+
+    // Later entries for the same key supersede earlier ones
+    const latestByKey = new Map<string, ArchiveEntry>()
+    for (const entry of entries) {
+        latestByKey.set(entry.key, entry)
+    }
+
+    const matches: ArchiveMatch[] = []
+    for (const entry of latestByKey.values()) {
+        const haystack = [entry.tool ?? "", entry.parameterKey ?? "", entry.text]
+            .join("\n")
+            .toLowerCase()
+        if (!terms.every((term) => haystack.includes(term))) {
+            continue
+        }
+        const score = terms.reduce((sum, term) => sum + haystack.split(term).length - 1, 0)
+        matches.push({ entry, snippet: buildSnippet(entry.text, terms), score })
+    }
+
+    return matches.sort((a, b) => b.score - a.score || b.entry.turn - a.entry.turn).slice(0, limit)
+}
+
+function buildSnippet(text: string, terms: string[]): string {
+    const lines = text.split("\n")
+    const keep = new Set<number>()
+    lines.forEach((line, index) => {
+        const lower = line.toLowerCase()
+        if (!terms.some((term) => lower.includes(term))) {
+            return
+        }
+        const start = Math.max(0, index - SNIPPET_CONTEXT_LINES)
+        const end = Math.min(lines.length - 1, index + SNIPPET_CONTEXT_LINES)
+        for (let i = start; i <= end; i++) {
+            keep.add(i)
+        }
+    })
+
+    // Matched on tool name or path only: show the start of the content
+    if (keep.size === 0) {
+        const head = lines.slice(0, SNIPPET_MAX_LINES)
+        const omitted = lines.length - head.length
+        return head.join("\n") + (omitted > 0 ? `\n... (${omitted} more lines)` : "")
+    }
+
+    const result: string[] = []
+    let previous = -1
+    for (const index of [...keep].sort((a, b) => a - b)) {
+        if (result.length >= SNIPPET_MAX_LINES) {
+            result.push("... (more matches omitted)")
+            break
+        }
+        if (previous !== -1 && index > previous + 1) {
+            result.push("...")
+        }
+        result.push(`${index + 1}: ${lines[index]}`)
+        previous = index
+    }
+    return result.join("\n")
+}
@@ -0,0 +1,105 @@
+import { statSync } from "fs"
+import { fileURLToPath } from "url"
+import type { AttachmentEntry, SessionState, WithParts } from "./index"
+import type { Logger } from "../logger"
+import { isMessageCompacted } from "../shared-utils"
+
+// Rough per-image cost charged by vision models for a typical screenshot
+const IMAGE_TOKEN_ESTIMATE = 1600
+// Documents (PDFs) average ~1500 tokens per ~50KB page
+const DOCUMENT_BYTES_PER_TOKEN = 33
+
+export interface AttachmentInfo {
+    filename: string
+    mime: string
+    size?: number
+}
+
+/**
+ * Checks whether a file part is sent to the model as an attachment. Text files
+ * and directories are inlined by OpenCode as synthetic text parts instead.
+ */
+export function isAttachmentPart(part: any): boolean {
+    if (part?.type !== "file" || typeof part.mime !== "string") {
+        return false
+    }
+    return !part.mime.startsWith("text/") && part.mime !== "application/x-directory"
+}
+
+export function getAttachmentInfo(part: any): AttachmentInfo {
+    return {
+        filename: part.filename || "attachment",
+        mime: part.mime,
+        size: getAttachmentSize(part.url),
+    }
+}
+
+function getAttachmentSize(url: unknown): number | undefined {
+    if (typeof url !== "string") {
+        return undefined
+    }
+    if (url.startsWith("data:")) {
+        const base64 = url.slice(url.indexOf(",") + 1)
+        const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0
+        return Math.floor((base64.length * 3) / 4) - padding
+    }
+    if (url.startsWith("file:")) {
+        try {
+            return statSync(fileURLToPath(url)).size
+        } catch {
+            return undefined
+        }
+    }
+    return undefined
+}
+
+export function estimateAttachmentTokens(info: AttachmentInfo): number {
+    if (info.mime.startsWith("image/")) {
+        return IMAGE_TOKEN_ESTIMATE
+    }
+    return info.size !== undefined ? Math.ceil(info.size / DOCUMENT_BYTES_PER_TOKEN) : 0
+}
+
+/**
+ * Sync attachments (non-text file parts) from user messages.
+ */
+export function syncAttachmentCache(
+    state: SessionState,
+    logger: Logger,
+    messages: WithParts[],
+): void {
+    let turnCounter = 0
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type === "step-start") {
+                turnCounter++
+                continue
+            }
+
+            if (msg.info.role !== "user" || !isAttachmentPart(part)) {
+                continue
+            }
+            if (state.attachments.has(part.id)) {
+                continue
+            }
+
+            const info = getAttachmentInfo(part)
+            const entry: AttachmentEntry = {
+                messageId: msg.info.id,
+                ...info,
+                turn: turnCounter,
+                tokenCount: estimateAttachmentTokens(info),
+            }
+            state.attachments.set(part.id, entry)
+            logger.info(
+                `Cached attachment: ${part.id} (${entry.filename}, turn ${turnCounter}, ~${entry.tokenCount} tokens)`,
+            )
+        }
+    }
+}
@@ -0,0 +1,68 @@
+import { createHash } from "crypto"
+import { readFileSync, statSync } from "fs"
+import { resolve } from "path"
+import type { FileSnapshot } from "./types"
+
+// Larger files are compared by mtime and size only, so a read never stalls
+// the request on hashing a huge file
+const MAX_HASHED_FILE_BYTES = 1024 * 1024
+
+function hashFile(path: string, size: number): string | undefined {
+    if (size > MAX_HASHED_FILE_BYTES) {
+        return undefined
+    }
+    return createHash("sha1").update(readFileSync(path)).digest("hex")
+}
+
+/**
+ * Records the current on-disk state of a file, or undefined when it cannot be
+ * read (missing file, directory, permissions). When the time the file was read
+ * is given and the file was modified after it, the snapshot is marked as such:
+ * the content the read saw can no longer be hashed.
+ */
+export function takeFileSnapshot(
+    filePath: string,
+    workingDirectory: string,
+    readAt?: number,
+): FileSnapshot | undefined {
+    const fullPath = resolve(workingDirectory, filePath)
+    try {
+        const stats = statSync(fullPath)
+        if (!stats.isFile()) {
+            return undefined
+        }
+        return {
+            path: fullPath,
+            mtimeMs: stats.mtimeMs,
+            size: stats.size,
+            hash: hashFile(fullPath, stats.size),
+            modifiedAfterRead: readAt !== undefined && stats.mtimeMs > readAt ? true : undefined,
+        }
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Checks whether a file's content differs from its snapshot. The content is
+ * only re-hashed when the mtime moved but the size did not, so touched but
+ * identical files are not reported. Without a hash, any mtime or size change
+ * counts. A file that no longer exists counts as changed.
+ */
+export function hasFileChanged(snapshot: FileSnapshot): boolean {
+    if (snapshot.modifiedAfterRead) {
+        return true
+    }
+    try {
+        const stats = statSync(snapshot.path)
+        if (stats.mtimeMs === snapshot.mtimeMs && stats.size === snapshot.size) {
+            return false
+        }
+        if (stats.size !== snapshot.size || snapshot.hash === undefined) {
+            return true
+        }
+        return hashFile(snapshot.path, stats.size) !== snapshot.hash
+    } catch {
+        return true
+    }
+}
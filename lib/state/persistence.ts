@@ -8,24 +8,51 @@ import * as fs from "fs/promises"
 import { existsSync } from "fs"
 import { homedir } from "os"
 import { join } from "path"
-import type { SessionState, SessionStats, CompressSummary } from "./types"
+import type {
+    SessionState,
+    SessionStats,
+    CompressSummary,
+    CompressOperation,
+    FileSnapshot,
+    PruneReason,
+    StructuredDistillation,
+    TrimRange,
+} from "./types"
 import type { Logger } from "../logger"
 
 /** Prune state as stored on disk (arrays for JSON compatibility) */
 export interface PersistedPrune {
     toolIds: string[]
     messageIds: string[]
+    truncatedToolIds?: Record<string, number>
+    collapsedToolIds?: string[]
+    extractedToolIds?: string[]
+    changedOnDiskToolIds?: string[]
+    reasoningPartIds?: Record<string, number>
+    attachmentPartIds?: string[]
+    restoredToolIds?: string[]
+    trimmedToolIds?: Record<string, TrimRange[]>
+    reasons?: Record<string, PruneReason>
+}
+
+export interface PersistedPinned {
+    toolIds: string[]
+    filePaths: string[]
 }
 
 export interface PersistedSessionState {
     sessionName?: string
     prune: PersistedPrune
     compressSummaries: CompressSummary[]
+    compressOperations?: CompressOperation[]
+    pinned?: PersistedPinned
+    fileSnapshots?: Record<string, FileSnapshot>
+    distillations?: Record<string, StructuredDistillation>
     stats: SessionStats
     lastUpdated: string
 }
 
-const STORAGE_DIR = join(
+export const STORAGE_DIR = join(
     process.env.XDG_DATA_HOME || join(homedir(), ".local", "share"),
     "opencode",
     "storage",
@@ -60,8 +87,24 @@ export async function saveSessionState(
             prune: {
                 toolIds: [...sessionState.prune.toolIds],
                 messageIds: [...sessionState.prune.messageIds],
+                truncatedToolIds: Object.fromEntries(sessionState.prune.truncatedToolIds),
+                collapsedToolIds: [...sessionState.prune.collapsedToolIds],
+                extractedToolIds: [...sessionState.prune.extractedToolIds],
+                changedOnDiskToolIds: [...sessionState.prune.changedOnDiskToolIds],
+                reasoningPartIds: Object.fromEntries(sessionState.prune.reasoningPartIds),
+                attachmentPartIds: [...sessionState.prune.attachmentPartIds],
+                restoredToolIds: [...sessionState.prune.restoredToolIds],
+                trimmedToolIds: Object.fromEntries(sessionState.prune.trimmedToolIds),
+                reasons: Object.fromEntries(sessionState.prune.reasons),
             },
             compressSummaries: sessionState.compressSummaries,
+            compressOperations: sessionState.compressOperations,
+            pinned: {
+                toolIds: [...sessionState.pinned.toolIds],
+                filePaths: [...sessionState.pinned.filePaths],
+            },
+            fileSnapshots: Object.fromEntries(sessionState.fileSnapshots),
+            distillations: Object.fromEntries(sessionState.distillations),
             stats: sessionState.stats,
             lastUpdated: new Date().toISOString(),
         }
@@ -82,6 +125,18 @@ export async function saveSessionState(
     }
 }
 
+// Rolled up children must be valid too, or the lineage cannot be expanded
+function isValidCompressSummary(s: any): s is CompressSummary {
+    return (
+        s !== null &&
+        typeof s === "object" &&
+        typeof s.anchorMessageId === "string" &&
+        typeof s.summary === "string" &&
+        (s.children === undefined ||
+            (Array.isArray(s.children) && s.children.every(isValidCompressSummary)))
+    )
+}
+
 export async function loadSessionState(
     sessionId: string,
     logger: Logger,
@@ -104,13 +159,7 @@ export async function loadSessionState(
         }
 
         if (Array.isArray(state.compressSummaries)) {
-            const validSummaries = state.compressSummaries.filter(
-                (s): s is CompressSummary =>
-                    s !== null &&
-                    typeof s === "object" &&
-                    typeof s.anchorMessageId === "string" &&
-                    typeof s.summary === "string",
-            )
+            const validSummaries = state.compressSummaries.filter(isValidCompressSummary)
             if (validSummaries.length !== state.compressSummaries.length) {
                 logger.warn("Filtered out malformed compressSummaries entries", {
                     sessionId: sessionId,
@@ -141,6 +190,13 @@ export interface AggregatedStats {
     totalTokens: number
     totalTools: number
     totalMessages: number
+    totalPruneBatches: number
+    totalCacheBreaks: number
+    totalDcpCacheBreaks: number
+    totalSavedUsd: number
+    totalLostUsd: number
+    // Pruned tool outputs per stated reason
+    reasonCounts: Partial<Record<PruneReason, number>>
     sessionCount: number
 }
 
@@ -149,6 +205,12 @@ export async function loadAllSessionStats(logger: Logger): Promise<AggregatedSta
         totalTokens: 0,
         totalTools: 0,
         totalMessages: 0,
+        totalPruneBatches: 0,
+        totalCacheBreaks: 0,
+        totalDcpCacheBreaks: 0,
+        totalSavedUsd: 0,
+        totalLostUsd: 0,
+        reasonCounts: {},
         sessionCount: 0,
     }
 
@@ -170,6 +232,14 @@ export async function loadAllSessionStats(logger: Logger): Promise<AggregatedSta
                     result.totalTokens += state.stats.totalPruneTokens
                     result.totalTools += state.prune.toolIds.length
                     result.totalMessages += state.prune.messageIds?.length || 0
+                    result.totalPruneBatches += state.stats.pruneBatches || 0
+                    result.totalCacheBreaks += state.stats.cacheBreaks || 0
+                    result.totalDcpCacheBreaks += state.stats.dcpCacheBreaks || 0
+                    result.totalSavedUsd += state.stats.estimatedSavedUsd || 0
+                    result.totalLostUsd += state.stats.estimatedLostUsd || 0
+                    for (const reason of Object.values(state.prune.reasons || {})) {
+                        result.reasonCounts[reason] = (result.reasonCounts[reason] || 0) + 1
+                    }
                     result.sessionCount++
                 }
             } catch {
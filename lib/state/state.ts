@@ -1,6 +1,17 @@
-import type { SessionState, ToolParameterEntry, WithParts } from "./types"
+import type {
+    AttachmentEntry,
+    CacheSchedulerState,
+    FileSnapshot,
+    PruneReason,
+    SessionState,
+    StructuredDistillation,
+    TrimRange,
+    ToolParameterEntry,
+    WithParts,
+} from "./types"
 import type { Logger } from "../logger"
 import { loadSessionState } from "./persistence"
+import { loadArchive } from "./archive"
 import {
     isSubAgentSession,
     findLastCompactionTimestamp,
@@ -50,20 +61,46 @@ export function createSessionState(): SessionState {
         prune: {
             toolIds: new Set<string>(),
             messageIds: new Set<string>(),
+            truncatedToolIds: new Map<string, number>(),
+            collapsedToolIds: new Set<string>(),
+            extractedToolIds: new Set<string>(),
+            changedOnDiskToolIds: new Set<string>(),
+            reasoningPartIds: new Map<string, number>(),
+            attachmentPartIds: new Set<string>(),
+            restoredToolIds: new Set<string>(),
+            trimmedToolIds: new Map<string, TrimRange[]>(),
+            reasons: new Map<string, PruneReason>(),
         },
         compressSummaries: [],
+        compressOperations: [],
+        pinned: {
+            toolIds: new Set<string>(),
+            filePaths: new Set<string>(),
+        },
+        ruleProtectedToolIds: new Set<string>(),
+        fileSnapshots: new Map<string, FileSnapshot>(),
+        distillations: new Map<string, StructuredDistillation>(),
         stats: {
             pruneTokenCounter: 0,
             totalPruneTokens: 0,
+            pruneBatches: 0,
+            cacheBreaks: 0,
+            dcpCacheBreaks: 0,
+            estimatedSavedUsd: 0,
+            estimatedLostUsd: 0,
         },
         toolParameters: new Map<string, ToolParameterEntry>(),
+        attachments: new Map<string, AttachmentEntry>(),
+        archivedKeys: new Set<string>(),
         toolIdList: [],
+        messageBlocks: [],
         nudgeCounter: 0,
         lastToolPrune: false,
         lastCompaction: 0,
         currentTurn: 0,
         variant: undefined,
         modelContextLimit: undefined,
+        cacheScheduler: createCacheSchedulerState(),
     }
 }
 
@@ -73,20 +110,55 @@ export function resetSessionState(state: SessionState): void {
     state.prune = {
         toolIds: new Set<string>(),
         messageIds: new Set<string>(),
+        truncatedToolIds: new Map<string, number>(),
+        collapsedToolIds: new Set<string>(),
+        extractedToolIds: new Set<string>(),
+        changedOnDiskToolIds: new Set<string>(),
+        reasoningPartIds: new Map<string, number>(),
+        attachmentPartIds: new Set<string>(),
+        restoredToolIds: new Set<string>(),
+        trimmedToolIds: new Map<string, TrimRange[]>(),
+        reasons: new Map<string, PruneReason>(),
     }
     state.compressSummaries = []
+    state.compressOperations = []
+    state.pinned = {
+        toolIds: new Set<string>(),
+        filePaths: new Set<string>(),
+    }
+    state.ruleProtectedToolIds = new Set<string>()
+    state.fileSnapshots = new Map<string, FileSnapshot>()
+    state.distillations = new Map<string, StructuredDistillation>()
     state.stats = {
         pruneTokenCounter: 0,
         totalPruneTokens: 0,
+        pruneBatches: 0,
+        cacheBreaks: 0,
+        dcpCacheBreaks: 0,
+        estimatedSavedUsd: 0,
+        estimatedLostUsd: 0,
     }
     state.toolParameters.clear()
+    state.attachments.clear()
+    state.archivedKeys.clear()
     state.toolIdList = []
+    state.messageBlocks = []
     state.nudgeCounter = 0
     state.lastToolPrune = false
     state.lastCompaction = 0
     state.currentTurn = 0
     state.variant = undefined
     state.modelContextLimit = undefined
+    state.cacheScheduler = createCacheSchedulerState()
+}
+
+function createCacheSchedulerState(): CacheSchedulerState {
+    return {
+        renderedSignature: undefined,
+        flushRequested: false,
+        awaitingCacheCheck: false,
+        lastCheckedMessageId: undefined,
+    }
 }
 
 export async function ensureSessionInitialized(
@@ -113,6 +185,9 @@ export async function ensureSessionInitialized(
     state.lastCompaction = findLastCompactionTimestamp(messages)
     state.currentTurn = countTurns(state, messages)
 
+    const archive = await loadArchive(sessionId, logger)
+    state.archivedKeys = new Set(archive.map((entry) => entry.key))
+
     const persisted = await loadSessionState(sessionId, logger)
     if (persisted === null) {
         return
@@ -121,10 +196,31 @@ export async function ensureSessionInitialized(
     state.prune = {
         toolIds: new Set(persisted.prune.toolIds || []),
         messageIds: new Set(persisted.prune.messageIds || []),
+        truncatedToolIds: new Map(Object.entries(persisted.prune.truncatedToolIds || {})),
+        collapsedToolIds: new Set(persisted.prune.collapsedToolIds || []),
+        extractedToolIds: new Set(persisted.prune.extractedToolIds || []),
+        changedOnDiskToolIds: new Set(persisted.prune.changedOnDiskToolIds || []),
+        reasoningPartIds: new Map(Object.entries(persisted.prune.reasoningPartIds || {})),
+        attachmentPartIds: new Set(persisted.prune.attachmentPartIds || []),
+        restoredToolIds: new Set(persisted.prune.restoredToolIds || []),
+        trimmedToolIds: new Map(Object.entries(persisted.prune.trimmedToolIds || {})),
+        reasons: new Map(Object.entries(persisted.prune.reasons || {}) as [string, PruneReason][]),
     }
     state.compressSummaries = persisted.compressSummaries || []
+    state.compressOperations = persisted.compressOperations || []
+    state.pinned = {
+        toolIds: new Set(persisted.pinned?.toolIds || []),
+        filePaths: new Set(persisted.pinned?.filePaths || []),
+    }
+    state.fileSnapshots = new Map(Object.entries(persisted.fileSnapshots || {}))
+    state.distillations = new Map(Object.entries(persisted.distillations || {}))
     state.stats = {
         pruneTokenCounter: persisted.stats?.pruneTokenCounter || 0,
         totalPruneTokens: persisted.stats?.totalPruneTokens || 0,
+        pruneBatches: persisted.stats?.pruneBatches || 0,
+        cacheBreaks: persisted.stats?.cacheBreaks || 0,
+        dcpCacheBreaks: persisted.stats?.dcpCacheBreaks || 0,
+        estimatedSavedUsd: persisted.stats?.estimatedSavedUsd || 0,
+        estimatedLostUsd: persisted.stats?.estimatedLostUsd || 0,
     }
 }
@@ -3,9 +3,14 @@ import type { Logger } from "../logger"
 import { PluginConfig } from "../config"
 import { isMessageCompacted } from "../shared-utils"
 import { countToolTokens } from "../strategies/utils"
+import { getFilePathsFromParameters } from "../protected-file-patterns"
+import { takeFileSnapshot } from "./file-snapshot"
 
 const MAX_TOOL_CACHE_SIZE = 1000
 
+// Context management tools provided by DCP
+const DCP_TOOLS = ["distill", "compress", "prune", "restore", "uncompress", "trim", "pin", "recall"]
+
 /**
  * Sync tool parameters from session messages.
  */
@@ -14,6 +19,7 @@ export function syncToolCache(
     config: PluginConfig,
     logger: Logger,
     messages: WithParts[],
+    workingDirectory: string,
 ): void {
     try {
         logger.info("Syncing tool parameters from OpenCode messages")
@@ -44,7 +50,7 @@ export function syncToolCache(
                     turnProtectionTurns > 0 &&
                     state.currentTurn - turnCounter < turnProtectionTurns
 
-                if (part.tool === "distill" || part.tool === "compress" || part.tool === "prune") {
+                if (DCP_TOOLS.includes(part.tool)) {
                     state.nudgeCounter = 0
                     state.lastToolPrune = true
                 } else {
@@ -55,6 +61,24 @@ export function syncToolCache(
                     }
                 }
 
+                // Snapshot reads as soon as they are seen, turn-protected ones included,
+                // so changes made while they are protected are not missed
+                if (
+                    config.strategies.diskChanges.enabled &&
+                    part.tool === "read" &&
+                    part.state.status === "completed" &&
+                    !state.fileSnapshots.has(part.callID)
+                ) {
+                    const snapshot = snapshotReadFile(
+                        part.state.input,
+                        workingDirectory,
+                        part.state.time.end,
+                    )
+                    if (snapshot) {
+                        state.fileSnapshots.set(part.callID, snapshot)
+                    }
+                }
+
                 if (state.toolParameters.has(part.callID)) {
                     continue
                 }
@@ -92,6 +116,11 @@ export function syncToolCache(
     }
 }
 
+function snapshotReadFile(parameters: any, workingDirectory: string, readAt: number) {
+    const filePath = getFilePathsFromParameters("read", parameters)[0]
+    return filePath ? takeFileSnapshot(filePath, workingDirectory, readAt) : undefined
+}
+
 /**
  * Trim the tool parameters cache to prevent unbounded memory growth.
  * Uses FIFO eviction - removes oldest entries first.
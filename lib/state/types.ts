@@ -7,6 +7,29 @@ export interface WithParts {
 
 export type ToolStatus = "pending" | "running" | "completed" | "error"
 
+export type PruneReason =
+    | "completion"
+    | "noise"
+    | "superseded"
+    | "wrong-target"
+    | "extraction"
+    | "budget"
+    | "retry"
+    | "trim"
+
+// 1-based inclusive line range of a tool output
+export type TrimRange = [number, number]
+
+export interface FileSnapshot {
+    path: string
+    mtimeMs: number
+    size: number
+    // Content hash, unset for files too large to hash on every read
+    hash?: string
+    // The file was already modified after the read ran when the snapshot was taken
+    modifiedAfterRead?: boolean
+}
+
 export interface ToolParameterEntry {
     tool: string
     parameters: any
@@ -16,19 +39,120 @@ export interface ToolParameterEntry {
     tokenCount?: number
 }
 
+export interface AttachmentEntry {
+    messageId: string
+    filename: string
+    mime: string
+    size?: number
+    turn: number
+    tokenCount: number
+}
+
 export interface SessionStats {
     pruneTokenCounter: number
     totalPruneTokens: number
+    // Prune batches applied to the rendered history
+    pruneBatches: number
+    // Responses whose cached prompt prefix was invalidated, and how many followed a DCP change
+    cacheBreaks: number
+    dcpCacheBreaks: number
+    // Estimated USD saved by sending less context, and lost to DCP-caused cache breaks
+    estimatedSavedUsd: number
+    estimatedLostUsd: number
+}
+
+export interface CacheSchedulerState {
+    // Signature of the prune state the history was last rendered with
+    renderedSignature: string | undefined
+    // Set by notified prunes and correctness changes, which are applied right away
+    flushRequested: boolean
+    // DCP changed the rendered history and the next response is not checked yet
+    awaitingCacheCheck: boolean
+    lastCheckedMessageId: string | undefined
+}
+
+// Message addressable by its index in the compress context
+export interface MessageBlock {
+    messageId: string
+    turn: number
 }
 
+// Summaries form a tree: compressing over existing summaries rolls them up as
+// children of the new one. Fields other than anchor and summary are missing
+// on summaries persisted by older versions
 export interface CompressSummary {
     anchorMessageId: string
     summary: string
+    topic?: string
+    // First and last message of the compressed range
+    startMessageId?: string
+    endMessageId?: string
+    createdTurn?: number
+    // Compress operation that created this summary
+    operationId?: number
+    // Rolled up summaries, in conversation order
+    children?: CompressSummary[]
+}
+
+// Record of a compress call, so the uncompress tool and command can roll it back
+export interface CompressOperation {
+    id: number
+    topic: string
+    // Anchor of the summary it created
+    anchorMessageId: string
+    // Message and tool call IDs it compressed that were not compressed before
+    messageIds: string[]
+    toolIds: string[]
+    // Anchors of the summaries it rolled up
+    absorbedAnchorIds: string[]
+    tokens: number
+    createdTurn: number
 }
 
 export interface Prune {
     toolIds: Set<string>
     messageIds: Set<string>
+    // Tool call ID -> number of output lines kept by head+tail truncation
+    truncatedToolIds: Map<string, number>
+    // Tool calls removed entirely (input and output): failed calls after a successful
+    // retry, and superseded calls of snapshot tools
+    collapsedToolIds: Set<string>
+    // Bash outputs replaced by an extract of their meaningful lines
+    extractedToolIds: Set<string>
+    // Read outputs annotated because the file changed on disk since the read
+    changedOnDiskToolIds: Set<string>
+    // Reasoning part ID -> lines kept (0 strips the reasoning, signed parts are dropped)
+    reasoningPartIds: Map<string, number>
+    // User message file parts replaced by a short descriptor
+    attachmentPartIds: Set<string>
+    // Tool calls brought back by the restore tool, left alone by the automatic strategies
+    restoredToolIds: Set<string>
+    // Tool call ID -> line ranges of the output kept verbatim by the trim tool
+    trimmedToolIds: Map<string, TrimRange[]>
+    // Tool call ID -> why it was pruned, for prunes that state a reason
+    reasons: Map<string, PruneReason>
+}
+
+export interface DistilledFile {
+    path: string
+    symbols?: string[]
+    // Key signatures, verbatim
+    signatures?: string[]
+}
+
+// Structured form of a distillation, kept queryable next to the free-form text
+export interface StructuredDistillation {
+    files?: DistilledFile[]
+    facts?: string[]
+    decisions?: string[]
+    openQuestions?: string[]
+}
+
+// Outputs the pin tool marked as must-keep, never pruned by DCP
+export interface Pinned {
+    toolIds: Set<string>
+    // Paths or globs; every tool call on a matching file is pinned
+    filePaths: Set<string>
 }
 
 export interface SessionState {
@@ -36,13 +160,27 @@ export interface SessionState {
     isSubAgent: boolean
     prune: Prune
     compressSummaries: CompressSummary[]
+    compressOperations: CompressOperation[]
+    pinned: Pinned
+    // Tool calls matched first by a `protect` rule, recomputed on every request
+    ruleProtectedToolIds: Set<string>
+    // Read tool call ID -> on-disk state of the file when the read was first seen,
+    // used to detect external changes
+    fileSnapshots: Map<string, FileSnapshot>
+    // Tool call ID -> structured distillation that replaced its output
+    distillations: Map<string, StructuredDistillation>
     stats: SessionStats
     toolParameters: Map<string, ToolParameterEntry>
+    attachments: Map<string, AttachmentEntry>
+    // Keys of the tool calls and parts whose content is in the recall archive
+    archivedKeys: Set<string>
     toolIdList: string[]
+    messageBlocks: MessageBlock[]
     nudgeCounter: number
     lastToolPrune: boolean
     lastCompaction: number
     currentTurn: number
     variant: string | undefined
     modelContextLimit: number | undefined
+    cacheScheduler: CacheSchedulerState
 }
@@ -1,4 +1,12 @@
-import type { SessionState, WithParts } from "./types"
+import type {
+    CompressOperation,
+    CompressSummary,
+    FileSnapshot,
+    PruneReason,
+    SessionState,
+    TrimRange,
+    WithParts,
+} from "./types"
 import { isMessageCompacted } from "../shared-utils"
 
 export async function isSubAgentSession(client: any, sessionID: string): Promise<boolean> {
@@ -38,9 +46,82 @@ export function countTurns(state: SessionState, messages: WithParts[]): number {
 
 export function resetOnCompaction(state: SessionState): void {
     state.toolParameters.clear()
+    state.attachments.clear()
     state.prune.toolIds = new Set<string>()
     state.prune.messageIds = new Set<string>()
+    state.prune.truncatedToolIds = new Map<string, number>()
+    state.prune.collapsedToolIds = new Set<string>()
+    state.prune.extractedToolIds = new Set<string>()
+    state.prune.changedOnDiskToolIds = new Set<string>()
+    state.prune.reasoningPartIds = new Map<string, number>()
+    state.prune.attachmentPartIds = new Set<string>()
+    state.prune.restoredToolIds = new Set<string>()
+    state.prune.trimmedToolIds = new Map<string, TrimRange[]>()
+    state.prune.reasons = new Map<string, PruneReason>()
     state.compressSummaries = []
+    state.compressOperations = []
+    state.fileSnapshots = new Map<string, FileSnapshot>()
+    state.ruleProtectedToolIds = new Set<string>()
+    // Pinned paths and distillations outlive the compacted tool calls
+    state.pinned.toolIds = new Set<string>()
     state.nudgeCounter = 0
     state.lastToolPrune = false
 }
+
+function findRollupOperationId(
+    summaries: CompressSummary[],
+    operationId: number,
+): number | undefined {
+    for (const summary of summaries) {
+        const children = summary.children ?? []
+        if (
+            children.some((child) => child.operationId === operationId) ||
+            findRollupOperationId(children, operationId) !== undefined
+        ) {
+            return summary.operationId
+        }
+    }
+    return undefined
+}
+
+/**
+ * Rolls back a compress operation: its messages and tool calls are rendered
+ * again and the summaries it rolled up take the place of its summary. Only
+ * summaries still in context can be rolled back; a summary rolled up by a
+ * later compress needs that compress rolled back first.
+ */
+export function rollbackCompressOperation(
+    state: SessionState,
+    operationId: number,
+): CompressOperation {
+    const operation = state.compressOperations.find((op) => op.id === operationId)
+    if (!operation) {
+        throw new Error(`No compress operation #${operationId} found in this session.`)
+    }
+
+    const index = state.compressSummaries.findIndex((s) => s.operationId === operationId)
+    if (index === -1) {
+        const rollupId = findRollupOperationId(state.compressSummaries, operationId)
+        throw new Error(
+            rollupId !== undefined
+                ? `Compress operation #${operationId} was rolled up by #${rollupId}. Uncompress #${rollupId} first.`
+                : `The summary of compress operation #${operationId} is no longer in context.`,
+        )
+    }
+
+    const summary = state.compressSummaries[index]
+    state.compressSummaries.splice(index, 1, ...(summary.children ?? []))
+
+    for (const id of operation.messageIds) {
+        state.prune.messageIds.delete(id)
+    }
+    for (const id of operation.toolIds) {
+        state.prune.toolIds.delete(id)
+    }
+
+    state.compressOperations = state.compressOperations.filter((op) => op.id !== operationId)
+    state.stats.totalPruneTokens = Math.max(0, state.stats.totalPruneTokens - operation.tokens)
+    state.cacheScheduler.flushRequested = true
+
+    return operation
+}
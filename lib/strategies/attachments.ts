@@ -0,0 +1,52 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+
+/**
+ * Attachments strategy - replaces pasted screenshots and attached files in
+ * user messages with a short descriptor (filename, mime type, original size)
+ * once they are older than a configured number of turns.
+ *
+ * Modifies the session state in place to add pruned attachment part IDs.
+ */
+export const pruneAttachments = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.attachments.enabled) {
+        return
+    }
+
+    if (state.attachments.size === 0) {
+        return
+    }
+
+    const turnThreshold = config.strategies.attachments.turns
+
+    const newPrunePartIds: string[] = []
+    let tokensSaved = 0
+
+    for (const [partId, entry] of state.attachments) {
+        if (state.prune.attachmentPartIds.has(partId)) {
+            continue
+        }
+
+        const turnAge = state.currentTurn - entry.turn
+        if (turnAge >= turnThreshold) {
+            newPrunePartIds.push(partId)
+            tokensSaved += entry.tokenCount
+        }
+    }
+
+    if (newPrunePartIds.length === 0) {
+        return
+    }
+
+    state.stats.totalPruneTokens += tokensSaved
+    for (const partId of newPrunePartIds) {
+        state.prune.attachmentPartIds.add(partId)
+    }
+    logger.debug(`Replaced ${newPrunePartIds.length} attachments with descriptors`)
+}
@@ -0,0 +1,236 @@
+import { createHash } from "crypto"
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { Prune, SessionState, WithParts } from "../state"
+import type { AssistantMessage } from "@opencode-ai/sdk/v2"
+import {
+    estimateCacheBreakCost,
+    estimateRequestSavings,
+    getLastAssistantWithTokens,
+    isPruneWorthCacheBreak,
+    resolvePricing,
+    resolveSessionPricing,
+    type ResolvedPricing,
+} from "../cost-model"
+
+// Anthropic's default prompt cache lifetime; an idle cache is gone anyway
+const PROMPT_CACHE_TTL_MS = 5 * 60 * 1000
+
+export interface PruneCheckpoint {
+    prune: Prune
+    totalPruneTokens: number
+    signature: string
+}
+
+function clonePrune(prune: Prune): Prune {
+    return {
+        toolIds: new Set(prune.toolIds),
+        messageIds: new Set(prune.messageIds),
+        truncatedToolIds: new Map(prune.truncatedToolIds),
+        collapsedToolIds: new Set(prune.collapsedToolIds),
+        extractedToolIds: new Set(prune.extractedToolIds),
+        changedOnDiskToolIds: new Set(prune.changedOnDiskToolIds),
+        reasoningPartIds: new Map(prune.reasoningPartIds),
+        attachmentPartIds: new Set(prune.attachmentPartIds),
+        restoredToolIds: new Set(prune.restoredToolIds),
+        trimmedToolIds: new Map(prune.trimmedToolIds),
+        reasons: new Map(prune.reasons),
+    }
+}
+
+// Hash of everything the history is rendered with. Sizes alone would miss a
+// restore and a new prune in the same request cancelling each other out
+function getPruneSignature(state: SessionState): string {
+    const prune = state.prune
+    const hash = createHash("sha1")
+    const addSection = (entries: Iterable<string>): void => {
+        hash.update([...entries].sort().join(",") + "|")
+    }
+    addSection(prune.toolIds)
+    addSection(prune.messageIds)
+    addSection([...prune.truncatedToolIds].map(([id, lines]) => `${id}=${lines}`))
+    addSection(prune.collapsedToolIds)
+    addSection(prune.extractedToolIds)
+    addSection(prune.changedOnDiskToolIds)
+    addSection([...prune.reasoningPartIds].map(([id, lines]) => `${id}=${lines}`))
+    addSection(prune.attachmentPartIds)
+    addSection([...prune.trimmedToolIds].map(([id, ranges]) => `${id}=${ranges.join(";")}`))
+    addSection(state.compressSummaries.map((s) => `${s.anchorMessageId}=${s.summary}`))
+    return hash.digest("hex")
+}
+
+/**
+ * Captures the prune state before the automatic strategies run, so their
+ * changes can be held back.
+ */
+export function createPruneCheckpoint(state: SessionState): PruneCheckpoint {
+    return {
+        prune: clonePrune(state.prune),
+        totalPruneTokens: state.stats.totalPruneTokens,
+        signature: getPruneSignature(state),
+    }
+}
+
+/**
+ * Checks whether the provider cache cannot be reused by the next request
+ * regardless of what DCP does: caching is not in use, or it has expired.
+ */
+function isPromptCacheCold(messages: WithParts[]): boolean {
+    const last = getLastAssistantWithTokens(messages)
+    if (!last) {
+        return true
+    }
+    const cache = last.tokens?.cache
+    if (!cache || cache.read + cache.write === 0) {
+        return true
+    }
+    const finishedAt = last.time.completed ?? last.time.created
+    return Date.now() - finishedAt > PROMPT_CACHE_TTL_MS
+}
+
+/**
+ * Detects cache breaks from the token usage of new assistant responses. A
+ * response that reads fewer cached tokens than the previous one did had its
+ * cached prefix invalidated. Breaks right after DCP changed the rendered
+ * history are counted separately.
+ *
+ * With pricing enabled, also estimates the dollars each response saved by
+ * sending less context, and the dollars lost to DCP-caused cache breaks.
+ */
+export function trackCacheBreaks(
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void {
+    const scheduler = state.cacheScheduler
+    const assistants = messages
+        .map((msg) => msg.info)
+        .filter(
+            (info): info is AssistantMessage =>
+                info.role === "assistant" && (info as AssistantMessage).tokens?.output > 0,
+        )
+
+    const last = assistants[assistants.length - 1]
+    if (!last || last.id === scheduler.lastCheckedMessageId) {
+        return
+    }
+    scheduler.lastCheckedMessageId = last.id
+
+    const previous = assistants[assistants.length - 2]
+    const wasAwaitingCheck = scheduler.awaitingCacheCheck
+    scheduler.awaitingCacheCheck = false
+
+    const pricing = resolvePricing(config, last.providerID, last.modelID)
+    if (pricing) {
+        state.stats.estimatedSavedUsd += estimateRequestSavings(
+            pricing,
+            state.stats.totalPruneTokens,
+            (last.tokens?.cache?.read ?? 0) > 0,
+        )
+    }
+
+    if (!previous) {
+        return
+    }
+
+    const previousCacheRead = previous.tokens?.cache?.read ?? 0
+    const previousCacheWrite = previous.tokens?.cache?.write ?? 0
+    if (previousCacheRead + previousCacheWrite === 0) {
+        return
+    }
+
+    if ((last.tokens?.cache?.read ?? 0) < previousCacheRead) {
+        state.stats.cacheBreaks++
+        if (wasAwaitingCheck) {
+            state.stats.dcpCacheBreaks++
+            if (pricing) {
+                const rewrittenTokens = previousCacheRead - (last.tokens?.cache?.read ?? 0)
+                state.stats.estimatedLostUsd += estimateCacheBreakCost(pricing, rewrittenTokens)
+            }
+        }
+        logger.info("Detected prompt cache break", {
+            messageId: last.id,
+            causedByDcp: wasAwaitingCheck,
+        })
+    }
+}
+
+/**
+ * Cache-aware scheduler for automatic strategy prunes. Every applied prune
+ * changes the history from that point on and invalidates the provider's
+ * cached prefix, so new strategy prunes are held back until their combined
+ * savings reach `cacheScheduler.batchThreshold`, then applied as one batch.
+ * When pricing is known for the current model, the cost model decides
+ * instead, even with `cacheScheduler` disabled: the batch is applied once its
+ * savings pay back the cache break within `pricing.breakEvenRequests`
+ * requests.
+ * Prunes are applied right away when a cache break is unavoidable anyway:
+ * the history already changed since the last request, a notified prune (e.g.
+ * from the token budget, which must stay under its limit whatever the cost)
+ * or a correctness change (e.g. a changed on disk annotation) was made, or the
+ * cache is not in use or has expired. Changes that save no tokens, such as
+ * un-prunes, are never held back either: there is no saving to wait for.
+ *
+ * Held back prunes are rolled back from the session state; the strategies
+ * find them again on the next request.
+ */
+export function schedulePrunes(
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+    checkpoint: PruneCheckpoint,
+): void {
+    const scheduler = state.cacheScheduler
+    const signature = getPruneSignature(state)
+    const historyChanged = checkpoint.signature !== scheduler.renderedSignature
+    const pricing = resolveSessionPricing(config, messages)
+
+    if (signature !== checkpoint.signature && (config.cacheScheduler.enabled || pricing)) {
+        const pendingTokens = state.stats.totalPruneTokens - checkpoint.totalPruneTokens
+        const breakUnavoidable =
+            historyChanged || scheduler.flushRequested || isPromptCacheCold(messages)
+
+        if (
+            pendingTokens > 0 &&
+            !breakUnavoidable &&
+            !isBatchWorthApplying(config, messages, pricing, pendingTokens)
+        ) {
+            state.prune = checkpoint.prune
+            state.stats.totalPruneTokens = checkpoint.totalPruneTokens
+            logger.debug(
+                `Holding back ~${pendingTokens} tokens of prunes until they are worth a cache break`,
+            )
+            return
+        }
+
+        logger.info("Applying prune batch", { pendingTokens, breakUnavoidable })
+    }
+
+    const finalSignature = getPruneSignature(state)
+    if (finalSignature !== scheduler.renderedSignature) {
+        // The first render of a session has no cached prefix to break
+        if (scheduler.renderedSignature !== undefined) {
+            state.stats.pruneBatches++
+            scheduler.awaitingCacheCheck = true
+        }
+        scheduler.renderedSignature = finalSignature
+    }
+    scheduler.flushRequested = false
+}
+
+function isBatchWorthApplying(
+    config: PluginConfig,
+    messages: WithParts[],
+    pricing: ResolvedPricing | undefined,
+    pendingTokens: number,
+): boolean {
+    if (!pricing) {
+        return pendingTokens >= config.cacheScheduler.batchThreshold
+    }
+
+    const cache = getLastAssistantWithTokens(messages)?.tokens?.cache
+    const cachedTokens = (cache?.read ?? 0) + (cache?.write ?? 0)
+    return isPruneWorthCacheBreak(config, pricing, pendingTokens, cachedTokens)
+}
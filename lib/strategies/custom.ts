@@ -0,0 +1,122 @@
+import { basename, isAbsolute, join, resolve } from "path"
+import { pathToFileURL } from "url"
+import { PluginConfig, findOpencodeDir } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { mustKeep } from "./utils"
+
+/**
+ * Public strategy signature shared by the built-in strategies and custom
+ * strategy modules. A strategy inspects the messages and modifies the session
+ * state in place, e.g. by adding tool call IDs to `state.prune.toolIds`.
+ * Custom strategies may be async.
+ */
+export type Strategy = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+) => void | Promise<void>
+
+export interface CustomStrategy {
+    name: string
+    run: Strategy
+}
+
+/**
+ * Imports the custom strategy modules listed in `strategies.custom`. Paths are
+ * relative to the project's `.opencode/` directory. A module must export a
+ * strategy function as its default export or as `strategy`. Modules that fail
+ * to load are logged and skipped.
+ */
+export async function loadCustomStrategies(
+    config: PluginConfig,
+    workingDirectory: string,
+    logger: Logger,
+): Promise<CustomStrategy[]> {
+    const modulePaths = config.strategies.custom
+    if (modulePaths.length === 0) {
+        return []
+    }
+
+    const opencodeDir = findOpencodeDir(workingDirectory) ?? join(workingDirectory, ".opencode")
+    const strategies: CustomStrategy[] = []
+
+    for (const modulePath of modulePaths) {
+        const fullPath = isAbsolute(modulePath) ? modulePath : resolve(opencodeDir, modulePath)
+        try {
+            const mod = await import(pathToFileURL(fullPath).href)
+            const run = typeof mod.default === "function" ? mod.default : mod.strategy
+            if (typeof run !== "function") {
+                logger.warn("Custom strategy module does not export a strategy function", {
+                    path: fullPath,
+                })
+                continue
+            }
+            strategies.push({ name: run.name || basename(fullPath), run })
+            logger.info("Loaded custom strategy", { path: fullPath })
+        } catch (error: any) {
+            logger.error("Failed to load custom strategy", {
+                path: fullPath,
+                error: error?.message,
+            })
+        }
+    }
+
+    return strategies
+}
+
+/**
+ * Runs the custom strategies in order, awaiting each one. A throwing or
+ * rejecting strategy is logged and does not prevent the remaining strategies
+ * or the request from proceeding.
+ */
+export async function runCustomStrategies(
+    strategies: CustomStrategy[],
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): Promise<void> {
+    if (strategies.length === 0) {
+        return
+    }
+
+    const keptIds = state.toolIdList.filter((id) => mustKeep(state, id) && !isToolPruned(state, id))
+
+    for (const strategy of strategies) {
+        try {
+            await strategy.run(state, logger, config, messages)
+        } catch (error: any) {
+            logger.error("Custom strategy failed", {
+                strategy: strategy.name,
+                error: error?.message,
+            })
+        }
+    }
+
+    // Custom strategies modify the state directly, so undo any prune of a
+    // pinned or rule-protected output afterwards
+    for (const id of keptIds) {
+        if (isToolPruned(state, id)) {
+            logger.info("Ignoring custom strategy prune of pinned or rule-protected tool", { id })
+            state.prune.toolIds.delete(id)
+            state.prune.truncatedToolIds.delete(id)
+            state.prune.collapsedToolIds.delete(id)
+            state.prune.extractedToolIds.delete(id)
+            state.prune.trimmedToolIds.delete(id)
+            state.prune.changedOnDiskToolIds.delete(id)
+        }
+    }
+}
+
+function isToolPruned(state: SessionState, id: string): boolean {
+    return (
+        state.prune.toolIds.has(id) ||
+        state.prune.truncatedToolIds.has(id) ||
+        state.prune.collapsedToolIds.has(id) ||
+        state.prune.extractedToolIds.has(id) ||
+        state.prune.trimmedToolIds.has(id) ||
+        state.prune.changedOnDiskToolIds.has(id)
+    )
+}
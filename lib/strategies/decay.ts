@@ -0,0 +1,144 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { isMessageCompacted } from "../shared-utils"
+import { extractToolPartOutput } from "../smart-truncate"
+import { countTokens, truncateHeadTail, MUTATING_TOOLS, mustKeep } from "./utils"
+
+/**
+ * Decay strategy - progressively shrinks tool outputs as they age.
+ * Outputs are kept in full for a number of turns, then truncated to their
+ * first and last lines, and finally replaced by the prune placeholder.
+ *
+ * Modifies the session state in place to add truncated and pruned tool call IDs.
+ */
+export const decay = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.decay.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = allToolIds.filter(
+        (id) =>
+            !state.prune.toolIds.has(id) &&
+            !state.prune.restoredToolIds.has(id) &&
+            !mustKeep(state, id),
+    )
+    if (unprunedIds.length === 0) {
+        return
+    }
+
+    const { truncateTurns, truncateLines, pruneTurns } = config.strategies.decay
+    const protectedTools = [
+        ...config.tools.settings.protectedTools,
+        ...config.strategies.decay.protectedTools,
+    ]
+
+    const newTruncations = new Map<string, number>()
+    const newPruneIds: string[] = []
+
+    for (const id of unprunedIds) {
+        const metadata = state.toolParameters.get(id)
+        if (!metadata) {
+            continue
+        }
+
+        // Only outputs decay; file changes and questions are handled elsewhere
+        if (metadata.status !== "completed") {
+            continue
+        }
+        if (metadata.tool === "question" || MUTATING_TOOLS.includes(metadata.tool)) {
+            continue
+        }
+
+        // Skip protected tools
+        if (protectedTools.includes(metadata.tool)) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        const turnAge = state.currentTurn - metadata.turn
+        if (pruneTurns > 0 && turnAge >= pruneTurns) {
+            newPruneIds.push(id)
+        } else if (
+            turnAge >= truncateTurns &&
+            !state.prune.truncatedToolIds.has(id) &&
+            !state.prune.extractedToolIds.has(id) &&
+            !state.prune.trimmedToolIds.has(id)
+        ) {
+            newTruncations.set(id, truncateLines)
+        }
+    }
+
+    if (newTruncations.size === 0 && newPruneIds.length === 0) {
+        return
+    }
+
+    let tokensSaved = 0
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || part.state.status !== "completed") {
+                continue
+            }
+            const output = part.state.output
+            if (typeof output !== "string") {
+                continue
+            }
+
+            const keepLines = newTruncations.get(part.callID)
+            if (keepLines !== undefined) {
+                const truncated = truncateHeadTail(output, keepLines)
+                if (truncated === output) {
+                    // Already short enough, nothing to gain
+                    newTruncations.delete(part.callID)
+                    continue
+                }
+                tokensSaved += countTokens(output) - countTokens(truncated)
+                continue
+            }
+
+            if (newPruneIds.includes(part.callID)) {
+                const previousKeepLines = state.prune.truncatedToolIds.get(part.callID)
+                let remaining = output
+                if (previousKeepLines !== undefined) {
+                    remaining = truncateHeadTail(output, previousKeepLines)
+                } else if (state.prune.extractedToolIds.has(part.callID)) {
+                    remaining = extractToolPartOutput(part) ?? output
+                }
+                tokensSaved += countTokens(remaining)
+            }
+        }
+    }
+
+    state.stats.totalPruneTokens += tokensSaved
+    for (const [id, keepLines] of newTruncations) {
+        state.prune.truncatedToolIds.set(id, keepLines)
+    }
+    for (const id of newPruneIds) {
+        state.prune.truncatedToolIds.delete(id)
+        state.prune.toolIds.add(id)
+    }
+
+    logger.debug(
+        `Decayed tool outputs - truncated: ${newTruncations.size}, pruned: ${newPruneIds.length}`,
+    )
+}
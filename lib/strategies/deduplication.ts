@@ -2,7 +2,7 @@ import { PluginConfig } from "../config"
 import { Logger } from "../logger"
 import type { SessionState, WithParts } from "../state"
 import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
-import { calculateTokensSaved } from "./utils"
+import { calculateTokensSaved, mustKeep } from "./utils"
 
 /**
  * Deduplication strategy - prunes older tool calls that have identical
@@ -24,8 +24,13 @@ export const deduplicate = (
         return
     }
 
-    // Filter out IDs already pruned
-    const unprunedIds = allToolIds.filter((id) => !state.prune.toolIds.has(id))
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = allToolIds.filter(
+        (id) =>
+            !state.prune.toolIds.has(id) &&
+            !state.prune.restoredToolIds.has(id) &&
+            !mustKeep(state, id),
+    )
 
     if (unprunedIds.length === 0) {
         return
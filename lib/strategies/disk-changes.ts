@@ -0,0 +1,121 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { hasFileChanged } from "../state/file-snapshot"
+import { calculateTokensSaved, MUTATING_TOOLS, mustKeep } from "./utils"
+
+/**
+ * Disk Changes strategy - detects read tool outputs whose file has changed on
+ * disk since the read, e.g. edited in an IDE, switched by `git checkout` or
+ * rewritten by a formatter. Changes are detected against the snapshot taken
+ * when the read was first seen, or from the file's mtime when it was already
+ * modified after the read by then (e.g. between sessions). Stale reads are
+ * either pruned or annotated so the model does not reason from outdated
+ * content. Reads followed by an edit or write of the same file in the
+ * conversation are left to the stale reads strategy: the change is the
+ * model's own.
+ *
+ * Modifies the session state in place to add pruned or annotated tool call IDs.
+ */
+export const diskChanges = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.diskChanges.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    const { action, protectedTools } = config.strategies.diskChanges
+    if (protectedTools.includes("read")) {
+        return
+    }
+
+    // Track the latest successful mutation index for each file path
+    const lastMutationByFile = new Map<string, number>()
+    for (let i = 0; i < allToolIds.length; i++) {
+        const metadata = state.toolParameters.get(allToolIds[i])
+        if (!metadata || !MUTATING_TOOLS.includes(metadata.tool) || metadata.status === "error") {
+            continue
+        }
+        for (const filePath of getFilePathsFromParameters(metadata.tool, metadata.parameters)) {
+            lastMutationByFile.set(filePath, i)
+        }
+    }
+
+    const changedIds: string[] = []
+    // Several reads of the same file share one disk check per request
+    const changedBySnapshot = new Map<string, boolean>()
+
+    for (let i = 0; i < allToolIds.length; i++) {
+        const id = allToolIds[i]
+        if (
+            state.prune.toolIds.has(id) ||
+            state.prune.changedOnDiskToolIds.has(id) ||
+            state.prune.restoredToolIds.has(id) ||
+            mustKeep(state, id)
+        ) {
+            continue
+        }
+
+        const metadata = state.toolParameters.get(id)
+        const snapshot = state.fileSnapshots.get(id)
+        if (!metadata || metadata.tool !== "read" || !snapshot) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        // Superseded by a mutation in the conversation
+        if (filePaths.some((filePath) => (lastMutationByFile.get(filePath) ?? -1) > i)) {
+            continue
+        }
+
+        const cacheKey = [
+            snapshot.path,
+            snapshot.mtimeMs,
+            snapshot.size,
+            snapshot.hash,
+            snapshot.modifiedAfterRead,
+        ].join(":")
+        let changed = changedBySnapshot.get(cacheKey)
+        if (changed === undefined) {
+            changed = hasFileChanged(snapshot)
+            changedBySnapshot.set(cacheKey, changed)
+        }
+        if (changed) {
+            changedIds.push(id)
+        }
+    }
+
+    if (changedIds.length === 0) {
+        return
+    }
+
+    // Outdated content is a correctness problem, not a saving to batch up
+    state.cacheScheduler.flushRequested = true
+
+    if (action === "prune") {
+        state.stats.totalPruneTokens += calculateTokensSaved(state, messages, changedIds)
+        for (const id of changedIds) {
+            state.prune.toolIds.add(id)
+        }
+        logger.debug(`Marked ${changedIds.length} reads of files changed on disk for pruning`)
+        return
+    }
+
+    for (const id of changedIds) {
+        state.prune.changedOnDiskToolIds.add(id)
+    }
+    logger.debug(`Annotated ${changedIds.length} reads of files changed on disk`)
+}
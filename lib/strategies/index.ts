@@ -1,4 +1,27 @@
 export { deduplicate } from "./deduplication"
-export { createPruneTool, createDistillTool, createCompressTool } from "../tools"
+export { retainLatestSnapshots } from "./snapshot-tools"
+export { readCoverage } from "./read-coverage"
+export {
+    createPruneTool,
+    createDistillTool,
+    createCompressTool,
+    createRestoreTool,
+    createRecallTool,
+    createUncompressTool,
+    createPinTool,
+    createTrimTool,
+} from "../tools"
 export { supersedeWrites } from "./supersede-writes"
+export { staleReads } from "./stale-reads"
+export { diskChanges } from "./disk-changes"
 export { purgeErrors } from "./purge-errors"
+export { retryCollapse } from "./retry-collapse"
+export { applyRules, collectRuleProtections } from "./rules"
+export { smartTruncate } from "./smart-truncate"
+export { decay } from "./decay"
+export { pruneReasoning } from "./reasoning"
+export { pruneAttachments } from "./attachments"
+export { tokenBudget } from "./token-budget"
+export { createPruneCheckpoint, schedulePrunes, trackCacheBreaks } from "./cache-scheduler"
+export { loadCustomStrategies, runCustomStrategies } from "./custom"
+export type { Strategy, CustomStrategy } from "./custom"
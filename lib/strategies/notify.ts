@@ -0,0 +1,51 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import { PruneReason, sendUnifiedNotification } from "../ui/notification"
+import { getCurrentParams } from "./utils"
+
+/**
+ * Sends a prune notification for tool calls removed by an automatic strategy
+ * and folds the pending token counter into the session total.
+ * Callers are expected to have added the savings to `stats.pruneTokenCounter`.
+ */
+export async function notifyStrategyPrune(
+    client: any,
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+    pruneToolIds: string[],
+    reason: PruneReason,
+    workingDirectory: string,
+): Promise<void> {
+    const toolMetadata = new Map<string, ToolParameterEntry>()
+    for (const id of pruneToolIds) {
+        state.prune.reasons.set(id, reason)
+        const entry = state.toolParameters.get(id)
+        if (entry) {
+            toolMetadata.set(id, entry)
+        }
+    }
+
+    if (state.sessionId) {
+        const currentParams = getCurrentParams(state, messages, logger)
+        await sendUnifiedNotification(
+            client,
+            logger,
+            config,
+            state,
+            state.sessionId,
+            pruneToolIds,
+            toolMetadata,
+            reason,
+            currentParams,
+            workingDirectory,
+        )
+    }
+
+    state.stats.totalPruneTokens += state.stats.pruneTokenCounter
+    state.stats.pruneTokenCounter = 0
+    // The user has been told about this prune, so it must not be held back
+    state.cacheScheduler.flushRequested = true
+}
@@ -2,7 +2,7 @@ import { PluginConfig } from "../config"
 import { Logger } from "../logger"
 import type { SessionState, WithParts } from "../state"
 import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
-import { calculateTokensSaved } from "./utils"
+import { calculateTokensSaved, mustKeep } from "./utils"
 
 /**
  * Purge Errors strategy - prunes tool inputs for tools that errored
@@ -27,8 +27,13 @@ export const purgeErrors = (
         return
     }
 
-    // Filter out IDs already pruned
-    const unprunedIds = allToolIds.filter((id) => !state.prune.toolIds.has(id))
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = allToolIds.filter(
+        (id) =>
+            !state.prune.toolIds.has(id) &&
+            !state.prune.restoredToolIds.has(id) &&
+            !mustKeep(state, id),
+    )
 
     if (unprunedIds.length === 0) {
         return
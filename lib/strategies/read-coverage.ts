@@ -0,0 +1,119 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { calculateTokensSaved, mustKeep } from "./utils"
+
+// Matches the default line limit of OpenCode's read tool
+const DEFAULT_READ_LIMIT = 2000
+
+interface LineRange {
+    start: number
+    end: number
+}
+
+/**
+ * Read Coverage strategy - prunes read tool outputs whose line range is
+ * fully covered by a later read of the same file. A partial read followed
+ * by a wider read of the same file becomes redundant, even though the
+ * parameters differ and deduplication does not catch it.
+ *
+ * Modifies the session state in place to add pruned tool call IDs.
+ */
+export const readCoverage = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.readCoverage.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = new Set(
+        allToolIds.filter(
+            (id) =>
+                !state.prune.toolIds.has(id) &&
+                !state.prune.restoredToolIds.has(id) &&
+                !mustKeep(state, id),
+        ),
+    )
+    if (unprunedIds.size === 0) {
+        return
+    }
+
+    if (config.strategies.readCoverage.protectedTools.includes("read")) {
+        return
+    }
+
+    // Track completed reads by file path in chronological order
+    const readsByFile = new Map<string, { id: string; range: LineRange }[]>()
+
+    for (const id of allToolIds) {
+        const metadata = state.toolParameters.get(id)
+        if (!metadata || metadata.tool !== "read" || metadata.status !== "completed") {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (filePaths.length === 0) {
+            continue
+        }
+
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        const filePath = filePaths[0]
+        if (!readsByFile.has(filePath)) {
+            readsByFile.set(filePath, [])
+        }
+        const reads = readsByFile.get(filePath)
+        if (reads) {
+            reads.push({ id, range: getReadLineRange(metadata.parameters) })
+        }
+    }
+
+    // Find reads whose range is covered by a subsequent read of the same file
+    const newPruneIds: string[] = []
+
+    for (const [, reads] of readsByFile.entries()) {
+        for (let i = 0; i < reads.length - 1; i++) {
+            const read = reads[i]
+            // Skip if already pruned, restored, pinned or rule-protected
+            if (!unprunedIds.has(read.id)) {
+                continue
+            }
+
+            const isCovered = reads
+                .slice(i + 1)
+                .some(
+                    (later) =>
+                        later.range.start <= read.range.start && later.range.end >= read.range.end,
+                )
+            if (isCovered) {
+                newPruneIds.push(read.id)
+            }
+        }
+    }
+
+    if (newPruneIds.length > 0) {
+        state.stats.totalPruneTokens += calculateTokensSaved(state, messages, newPruneIds)
+        for (const id of newPruneIds) {
+            state.prune.toolIds.add(id)
+        }
+        logger.debug(`Marked ${newPruneIds.length} covered read tool calls for pruning`)
+    }
+}
+
+function getReadLineRange(parameters: any): LineRange {
+    const offset = typeof parameters?.offset === "number" ? parameters.offset : 0
+    const limit = typeof parameters?.limit === "number" ? parameters.limit : DEFAULT_READ_LIMIT
+    return { start: offset, end: offset + limit }
+}
@@ -0,0 +1,91 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getLastUserMessage, isMessageCompacted } from "../shared-utils"
+import { countTokens, isSignedReasoningPart, renderPrunedReasoning } from "./utils"
+
+/**
+ * Reasoning strategy - strips or truncates the reasoning parts of assistant
+ * turns older than a configured number of turns. Chains of thought rarely
+ * matter once their turn is over.
+ *
+ * Reasoning of the ongoing exchange (after the last user message) is never
+ * touched, since providers expect it back while tool calls are in flight.
+ * Signed reasoning cannot be altered and is skipped unless `pruneSigned` is
+ * enabled, in which case it is dropped entirely.
+ *
+ * Modifies the session state in place to add pruned reasoning part IDs.
+ */
+export const pruneReasoning = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.reasoning.enabled) {
+        return
+    }
+
+    const { turns, keepLines, pruneSigned } = config.strategies.reasoning
+    const lastUserMessage = getLastUserMessage(messages)
+    if (!lastUserMessage) {
+        return
+    }
+    const lastUserIndex = messages.indexOf(lastUserMessage)
+
+    const newReasoning = new Map<string, number>()
+    let tokensSaved = 0
+    let turnCounter = 0
+
+    for (let i = 0; i < lastUserIndex; i++) {
+        const msg = messages[i]
+        // Skipped before counting turns, like countTurns, so ages match state.currentTurn
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type === "step-start") {
+                turnCounter++
+                continue
+            }
+            if (part.type !== "reasoning") {
+                continue
+            }
+            if (state.prune.reasoningPartIds.has(part.id) || !part.text) {
+                continue
+            }
+            if (state.currentTurn - turnCounter < turns) {
+                continue
+            }
+
+            if (isSignedReasoningPart(part)) {
+                if (!pruneSigned) {
+                    continue
+                }
+                // Signed parts are removed whole when rendered
+                newReasoning.set(part.id, 0)
+                tokensSaved += countTokens(part.text)
+                continue
+            }
+
+            const rendered = renderPrunedReasoning(part.text, keepLines)
+            if (rendered === part.text) {
+                continue
+            }
+            newReasoning.set(part.id, keepLines)
+            tokensSaved += Math.max(0, countTokens(part.text) - countTokens(rendered))
+        }
+    }
+
+    if (newReasoning.size === 0) {
+        return
+    }
+
+    state.stats.totalPruneTokens += tokensSaved
+    for (const [id, keep] of newReasoning) {
+        state.prune.reasoningPartIds.set(id, keep)
+    }
+    logger.debug(`Pruned ${newReasoning.size} reasoning parts from old turns`)
+}
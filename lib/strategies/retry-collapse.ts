@@ -0,0 +1,129 @@
+import { ratio } from "fuzzball"
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { notifyStrategyPrune } from "./notify"
+import { calculateTokensSaved, mustKeep } from "./utils"
+
+/**
+ * Retry Collapse strategy - fully removes failed tool calls that were
+ * followed shortly after by a successful retry of the same tool on the same
+ * file or with a similar command. Unlike purgeErrors, both the input and the
+ * error are dropped, and it happens as soon as the retry succeeds.
+ *
+ * Modifies the session state in place to add pruned and collapsed tool call IDs
+ * and notifies the user about what was removed.
+ */
+export const retryCollapse = async (
+    client: any,
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+    workingDirectory: string,
+): Promise<void> => {
+    if (!config.strategies.retryCollapse.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    const protectedTools = config.strategies.retryCollapse.protectedTools
+    const turnWindow = config.strategies.retryCollapse.turns
+    const minSimilarity = config.strategies.retryCollapse.similarity
+
+    const newPruneIds: string[] = []
+
+    for (let i = 0; i < allToolIds.length; i++) {
+        const id = allToolIds[i]
+        if (
+            state.prune.collapsedToolIds.has(id) ||
+            state.prune.restoredToolIds.has(id) ||
+            mustKeep(state, id)
+        ) {
+            continue
+        }
+
+        const failed = state.toolParameters.get(id)
+        if (!failed || failed.status !== "error") {
+            continue
+        }
+
+        // Skip protected tools
+        if (protectedTools.includes(failed.tool)) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(failed.tool, failed.parameters)
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        for (let j = i + 1; j < allToolIds.length; j++) {
+            const retry = state.toolParameters.get(allToolIds[j])
+            if (!retry) {
+                continue
+            }
+            if (retry.turn - failed.turn > turnWindow) {
+                break
+            }
+            if (retry.tool !== failed.tool || retry.status !== "completed") {
+                continue
+            }
+            if (isSimilarCall(failed, retry, minSimilarity)) {
+                newPruneIds.push(id)
+                break
+            }
+        }
+    }
+
+    if (newPruneIds.length === 0) {
+        return
+    }
+
+    // Savings already counted for ids pruned earlier (e.g. by purgeErrors) are not re-added
+    const notYetPrunedIds = newPruneIds.filter((id) => !state.prune.toolIds.has(id))
+    state.stats.pruneTokenCounter += calculateTokensSaved(state, messages, notYetPrunedIds)
+    for (const id of newPruneIds) {
+        state.prune.toolIds.add(id)
+        state.prune.collapsedToolIds.add(id)
+    }
+
+    logger.debug(`Collapsed ${newPruneIds.length} failed tool calls that were retried`)
+
+    await notifyStrategyPrune(
+        client,
+        state,
+        logger,
+        config,
+        messages,
+        newPruneIds,
+        "retry",
+        workingDirectory,
+    )
+}
+
+function isSimilarCall(
+    failed: ToolParameterEntry,
+    retry: ToolParameterEntry,
+    minSimilarity: number,
+): boolean {
+    const failedPaths = getFilePathsFromParameters(failed.tool, failed.parameters)
+    const retryPaths = getFilePathsFromParameters(retry.tool, retry.parameters)
+    if (failedPaths.length > 0 || retryPaths.length > 0) {
+        return failedPaths.some((path) => retryPaths.includes(path))
+    }
+
+    return ratio(getCallSignature(failed), getCallSignature(retry)) >= minSimilarity
+}
+
+function getCallSignature(entry: ToolParameterEntry): string {
+    if (typeof entry.parameters?.command === "string") {
+        return entry.parameters.command
+    }
+    return JSON.stringify(entry.parameters ?? {})
+}
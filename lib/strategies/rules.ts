@@ -0,0 +1,220 @@
+import { PluginConfig, PruneRule } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { extractParameterKey } from "../messages/utils"
+import { isMessageCompacted } from "../shared-utils"
+import { calculateTokensSaved, countTokens, truncateHeadTail, mustKeep } from "./utils"
+
+const DEFAULT_RULE_TRUNCATE_LINES = 40
+
+interface CompiledRule {
+    rule: PruneRule
+    tools: string[] | undefined
+    pattern: RegExp | undefined
+}
+
+/**
+ * Rules strategy - applies the declarative `strategies.rules` from the config.
+ * Rules are evaluated in order and the first matching rule decides the action
+ * for a tool call: prune it or truncate its output. Tool calls protected by a
+ * rule are collected beforehand by `collectRuleProtections`.
+ *
+ * Modifies the session state in place to add pruned and truncated tool call IDs.
+ */
+export const applyRules = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (config.strategies.rules.length === 0) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = allToolIds.filter(
+        (id) =>
+            !state.prune.toolIds.has(id) &&
+            !state.prune.restoredToolIds.has(id) &&
+            !mustKeep(state, id),
+    )
+    if (unprunedIds.length === 0) {
+        return
+    }
+
+    const compiledRules = compileRules(config.strategies.rules, logger)
+    if (compiledRules.length === 0) {
+        return
+    }
+
+    const newPruneIds: string[] = []
+    const newTruncations = new Map<string, number>()
+
+    for (const id of unprunedIds) {
+        const metadata = state.toolParameters.get(id)
+        if (!metadata) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        const match = compiledRules.find((compiled) => matchesRule(state, compiled, metadata))
+        if (!match) {
+            continue
+        }
+
+        if (match.rule.action === "prune") {
+            newPruneIds.push(id)
+        } else if (
+            match.rule.action === "truncate" &&
+            !state.prune.truncatedToolIds.has(id) &&
+            !state.prune.extractedToolIds.has(id) &&
+            !state.prune.trimmedToolIds.has(id)
+        ) {
+            newTruncations.set(id, match.rule.truncateLines ?? DEFAULT_RULE_TRUNCATE_LINES)
+        }
+    }
+
+    if (newTruncations.size > 0) {
+        let tokensSaved = 0
+        for (const msg of messages) {
+            if (isMessageCompacted(state, msg)) {
+                continue
+            }
+            const parts = Array.isArray(msg.parts) ? msg.parts : []
+            for (const part of parts) {
+                if (part.type !== "tool" || !newTruncations.has(part.callID)) {
+                    continue
+                }
+                const keepLines = newTruncations.get(part.callID) as number
+                if (part.state.status !== "completed" || typeof part.state.output !== "string") {
+                    newTruncations.delete(part.callID)
+                    continue
+                }
+                const truncated = truncateHeadTail(part.state.output, keepLines)
+                if (truncated === part.state.output) {
+                    // Already short enough, nothing to gain
+                    newTruncations.delete(part.callID)
+                    continue
+                }
+                tokensSaved += countTokens(part.state.output) - countTokens(truncated)
+            }
+        }
+
+        state.stats.totalPruneTokens += tokensSaved
+        for (const [id, keepLines] of newTruncations) {
+            state.prune.truncatedToolIds.set(id, keepLines)
+        }
+    }
+
+    if (newPruneIds.length > 0) {
+        state.stats.totalPruneTokens += calculateTokensSaved(state, messages, newPruneIds)
+        for (const id of newPruneIds) {
+            state.prune.truncatedToolIds.delete(id)
+            state.prune.toolIds.add(id)
+        }
+    }
+
+    if (newPruneIds.length > 0 || newTruncations.size > 0) {
+        logger.debug(
+            `Applied config rules - pruned: ${newPruneIds.length}, truncated: ${newTruncations.size}`,
+        )
+    }
+}
+
+/**
+ * Collects the tool calls whose first matching rule is `protect`, before any
+ * strategy runs, so that every strategy and prune path keeps them.
+ */
+export const collectRuleProtections = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+): void => {
+    state.ruleProtectedToolIds = new Set<string>()
+    if (!config.strategies.rules.some((rule) => rule.action === "protect")) {
+        return
+    }
+
+    const compiledRules = compileRules(config.strategies.rules, logger)
+    for (const id of state.toolIdList) {
+        const metadata = state.toolParameters.get(id)
+        if (!metadata) {
+            continue
+        }
+        const match = compiledRules.find((compiled) => matchesRule(state, compiled, metadata))
+        if (match?.rule.action === "protect") {
+            state.ruleProtectedToolIds.add(id)
+        }
+    }
+}
+
+function compileRules(rules: PruneRule[], logger: Logger): CompiledRule[] {
+    const compiled: CompiledRule[] = []
+
+    for (const rule of rules) {
+        let pattern: RegExp | undefined
+        if (rule.parameterPattern !== undefined) {
+            try {
+                pattern = new RegExp(rule.parameterPattern)
+            } catch (error: any) {
+                logger.warn("Skipping rule with invalid parameterPattern", {
+                    parameterPattern: rule.parameterPattern,
+                    error: error?.message,
+                })
+                continue
+            }
+        }
+
+        const tools =
+            rule.tool === undefined ? undefined : Array.isArray(rule.tool) ? rule.tool : [rule.tool]
+        compiled.push({ rule, tools, pattern })
+    }
+
+    return compiled
+}
+
+function matchesRule(
+    state: SessionState,
+    compiled: CompiledRule,
+    metadata: ToolParameterEntry,
+): boolean {
+    const { rule, tools, pattern } = compiled
+
+    if (tools && !tools.includes(metadata.tool)) {
+        return false
+    }
+
+    if (rule.status !== undefined && metadata.status !== rule.status) {
+        return false
+    }
+
+    if (rule.minTokens !== undefined && (metadata.tokenCount ?? 0) < rule.minTokens) {
+        return false
+    }
+
+    if (rule.minTurnAge !== undefined && state.currentTurn - metadata.turn < rule.minTurnAge) {
+        return false
+    }
+
+    if (pattern) {
+        const subject =
+            rule.parameterSource === "raw"
+                ? JSON.stringify(metadata.parameters ?? {})
+                : extractParameterKey(metadata.tool, metadata.parameters)
+        if (!pattern.test(subject)) {
+            return false
+        }
+    }
+
+    return true
+}
@@ -0,0 +1,75 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { calculateExtractionSavings } from "../smart-truncate"
+import { mustKeep } from "./utils"
+
+/**
+ * Smart Truncate strategy - replaces old bash outputs from compilers,
+ * linters, test runners and package managers with an extract of their
+ * meaningful lines (diagnostics, failures, summaries) instead of dropping
+ * them entirely.
+ *
+ * Modifies the session state in place to add extracted tool call IDs.
+ */
+export const smartTruncate = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.smartTruncate.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    const protectedTools = config.strategies.smartTruncate.protectedTools
+    if (protectedTools.includes("bash")) {
+        return
+    }
+
+    const turnThreshold = config.strategies.smartTruncate.turns
+
+    const candidateIds: string[] = []
+    for (const id of allToolIds) {
+        if (
+            state.prune.toolIds.has(id) ||
+            state.prune.extractedToolIds.has(id) ||
+            state.prune.truncatedToolIds.has(id) ||
+            state.prune.trimmedToolIds.has(id) ||
+            state.prune.restoredToolIds.has(id) ||
+            mustKeep(state, id)
+        ) {
+            continue
+        }
+
+        const metadata = state.toolParameters.get(id)
+        if (!metadata || metadata.tool !== "bash" || metadata.status !== "completed") {
+            continue
+        }
+
+        const turnAge = state.currentTurn - metadata.turn
+        if (turnAge >= turnThreshold) {
+            candidateIds.push(id)
+        }
+    }
+
+    if (candidateIds.length === 0) {
+        return
+    }
+
+    const savings = calculateExtractionSavings(state, messages, candidateIds)
+    if (savings.size === 0) {
+        return
+    }
+
+    for (const [id, tokensSaved] of savings) {
+        state.prune.extractedToolIds.add(id)
+        state.stats.totalPruneTokens += tokensSaved
+    }
+    logger.debug(`Replaced ${savings.size} bash outputs with extracts of their meaningful lines`)
+}
@@ -0,0 +1,116 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted } from "../shared-utils"
+import { calculateTokensSaved, countTokens, mustKeep } from "./utils"
+
+/**
+ * Snapshot Tools strategy - keeps only the latest call of tools whose result
+ * is a full snapshot of some state (e.g. `todowrite`/`todoread` and the todo
+ * list). Every older call of the same tool is removed entirely, input and
+ * output, since the most recent call replaces it.
+ *
+ * Applies to the configured snapshot tools even when they are protected from
+ * the `prune` tool.
+ *
+ * Modifies the session state in place to add pruned tool call IDs.
+ */
+export const retainLatestSnapshots = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.snapshotTools.enabled) {
+        return
+    }
+
+    const snapshotTools = config.strategies.snapshotTools.tools
+    if (snapshotTools.length === 0) {
+        return
+    }
+
+    // Calls per snapshot tool in chronological order, read from the messages
+    // so that turn-protected calls (not cached) still count as the latest
+    const callsByTool = new Map<string, string[]>()
+    const latestCompleted = new Map<string, string>()
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || !snapshotTools.includes(part.tool)) {
+                continue
+            }
+            if (!callsByTool.has(part.tool)) {
+                callsByTool.set(part.tool, [])
+            }
+            callsByTool.get(part.tool)?.push(part.callID)
+            if (part.state.status === "completed") {
+                latestCompleted.set(part.tool, part.callID)
+            }
+        }
+    }
+
+    const newPruneIds: string[] = []
+
+    for (const [tool, callIds] of callsByTool) {
+        const latestId = latestCompleted.get(tool)
+        if (latestId === undefined) {
+            continue
+        }
+
+        for (const id of callIds.slice(0, callIds.indexOf(latestId))) {
+            if (
+                state.prune.collapsedToolIds.has(id) ||
+                state.prune.restoredToolIds.has(id) ||
+                mustKeep(state, id)
+            ) {
+                continue
+            }
+            // Skip turn-protected calls, they are not in the cache
+            if (!state.toolParameters.has(id)) {
+                continue
+            }
+            newPruneIds.push(id)
+        }
+    }
+
+    if (newPruneIds.length === 0) {
+        return
+    }
+
+    // Savings already counted for ids pruned earlier are not re-added
+    const notYetPrunedIds = newPruneIds.filter((id) => !state.prune.toolIds.has(id))
+    state.stats.totalPruneTokens +=
+        calculateTokensSaved(state, messages, notYetPrunedIds) +
+        countInputTokens(state, messages, newPruneIds)
+
+    for (const id of newPruneIds) {
+        state.prune.toolIds.add(id)
+        state.prune.collapsedToolIds.add(id)
+    }
+
+    logger.debug(`Removed ${newPruneIds.length} superseded snapshot tool calls`)
+}
+
+function countInputTokens(state: SessionState, messages: WithParts[], toolIds: string[]): number {
+    const inputs: string[] = []
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || !toolIds.includes(part.callID)) {
+                continue
+            }
+            if (part.state?.input) {
+                inputs.push(JSON.stringify(part.state.input))
+            }
+        }
+    }
+    return inputs.length > 0 ? countTokens(inputs.join(" ")) : 0
+}
@@ -0,0 +1,125 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { calculateTokensSaved, MUTATING_TOOLS, mustKeep } from "./utils"
+
+/**
+ * Stale Reads strategy - prunes read tool outputs for files that have
+ * subsequently been modified. When a file is read and later changed by a
+ * mutating tool, the original read output no longer reflects the file on
+ * disk and would mislead the model.
+ *
+ * Modifies the session state in place to add pruned tool call IDs.
+ */
+export const staleReads = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    if (!config.strategies.staleReads.enabled) {
+        return
+    }
+
+    const allToolIds = state.toolIdList
+    if (allToolIds.length === 0) {
+        return
+    }
+
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = new Set(
+        allToolIds.filter(
+            (id) =>
+                !state.prune.toolIds.has(id) &&
+                !state.prune.restoredToolIds.has(id) &&
+                !mustKeep(state, id),
+        ),
+    )
+    if (unprunedIds.size === 0) {
+        return
+    }
+
+    const protectedTools = config.strategies.staleReads.protectedTools
+
+    // Track read tools by file path: filePath -> [{ id, index }]
+    // We track index to determine chronological order
+    const readsByFile = new Map<string, { id: string; index: number }[]>()
+
+    // Track the latest mutation index for each file path
+    const lastMutationByFile = new Map<string, number>()
+
+    for (let i = 0; i < allToolIds.length; i++) {
+        const id = allToolIds[i]
+        const metadata = state.toolParameters.get(id)
+        if (!metadata) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (filePaths.length === 0) {
+            continue
+        }
+
+        if (MUTATING_TOOLS.includes(metadata.tool)) {
+            // A failed mutation leaves the file untouched
+            if (metadata.status === "error") {
+                continue
+            }
+            for (const filePath of filePaths) {
+                lastMutationByFile.set(filePath, i)
+            }
+            continue
+        }
+
+        if (metadata.tool !== "read") {
+            continue
+        }
+
+        if (protectedTools.includes(metadata.tool)) {
+            continue
+        }
+
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        const filePath = filePaths[0]
+        if (!readsByFile.has(filePath)) {
+            readsByFile.set(filePath, [])
+        }
+        const reads = readsByFile.get(filePath)
+        if (reads) {
+            reads.push({ id, index: i })
+        }
+    }
+
+    // Find reads that are invalidated by a subsequent mutation
+    const newPruneIds: string[] = []
+
+    for (const [filePath, reads] of readsByFile.entries()) {
+        const lastMutation = lastMutationByFile.get(filePath)
+        if (lastMutation === undefined) {
+            continue
+        }
+
+        for (const read of reads) {
+            // Skip if already pruned, restored, pinned or rule-protected
+            if (!unprunedIds.has(read.id)) {
+                continue
+            }
+
+            if (read.index < lastMutation) {
+                newPruneIds.push(read.id)
+            }
+        }
+    }
+
+    if (newPruneIds.length > 0) {
+        state.stats.totalPruneTokens += calculateTokensSaved(state, messages, newPruneIds)
+        for (const id of newPruneIds) {
+            state.prune.toolIds.add(id)
+        }
+        logger.debug(`Marked ${newPruneIds.length} stale read tool calls for pruning`)
+    }
+}
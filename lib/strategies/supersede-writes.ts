@@ -2,13 +2,15 @@ import { PluginConfig } from "../config"
 import { Logger } from "../logger"
 import type { SessionState, WithParts } from "../state"
 import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
-import { calculateTokensSaved } from "./utils"
+import { calculateTokensSaved, MUTATING_TOOLS, mustKeep } from "./utils"
 
 /**
- * Supersede Writes strategy - prunes write tool inputs for files that have
- * subsequently been read. When a file is written and later read, the original
- * write content becomes redundant since the current file state is captured
- * in the read result.
+ * Supersede Writes strategy - prunes mutating tool calls (write, edit,
+ * multiedit, apply_patch) for files that have subsequently been read. When a
+ * file is changed and later read, the original change content becomes
+ * redundant since the current file state is captured in the read result.
+ * A call touching several files is only superseded once every file has been
+ * read afterwards.
  *
  * Modifies the session state in place to add pruned tool call IDs.
  */
@@ -27,15 +29,22 @@ export const supersedeWrites = (
         return
     }
 
-    // Filter out IDs already pruned
-    const unprunedIds = allToolIds.filter((id) => !state.prune.toolIds.has(id))
-    if (unprunedIds.length === 0) {
+    // Filter out IDs already pruned, those the model restored, and pinned or rule-protected ones
+    const unprunedIds = new Set(
+        allToolIds.filter(
+            (id) =>
+                !state.prune.toolIds.has(id) &&
+                !state.prune.restoredToolIds.has(id) &&
+                !mustKeep(state, id),
+        ),
+    )
+    if (unprunedIds.size === 0) {
         return
     }
 
-    // Track write tools by file path: filePath -> [{ id, index }]
+    // Track mutating tools with every file they touched and their index
     // We track index to determine chronological order
-    const writesByFile = new Map<string, { id: string; index: number }[]>()
+    const mutations: { id: string; index: number; filePaths: string[] }[] = []
 
     // Track read file paths with their index
     const readsByFile = new Map<string, number[]>()
@@ -51,21 +60,15 @@ export const supersedeWrites = (
         if (filePaths.length === 0) {
             continue
         }
-        const filePath = filePaths[0]
 
         if (isProtected(filePaths, config.protectedFilePatterns)) {
             continue
         }
 
-        if (metadata.tool === "write") {
-            if (!writesByFile.has(filePath)) {
-                writesByFile.set(filePath, [])
-            }
-            const writes = writesByFile.get(filePath)
-            if (writes) {
-                writes.push({ id, index: i })
-            }
+        if (MUTATING_TOOLS.includes(metadata.tool)) {
+            mutations.push({ id, index: i, filePaths })
         } else if (metadata.tool === "read") {
+            const filePath = filePaths[0]
             if (!readsByFile.has(filePath)) {
                 readsByFile.set(filePath, [])
             }
@@ -76,27 +79,21 @@ export const supersedeWrites = (
         }
     }
 
-    // Find writes that are superseded by subsequent reads
+    // Find mutations where every touched file is read afterwards
     const newPruneIds: string[] = []
 
-    for (const [filePath, writes] of writesByFile.entries()) {
-        const reads = readsByFile.get(filePath)
-        if (!reads || reads.length === 0) {
+    for (const mutation of mutations) {
+        // Skip if already pruned, restored, pinned or rule-protected
+        if (!unprunedIds.has(mutation.id)) {
             continue
         }
 
-        // For each write, check if there's a read that comes after it
-        for (const write of writes) {
-            // Skip if already pruned
-            if (state.prune.toolIds.has(write.id)) {
-                continue
-            }
-
-            // Check if any read comes after this write
-            const hasSubsequentRead = reads.some((readIndex) => readIndex > write.index)
-            if (hasSubsequentRead) {
-                newPruneIds.push(write.id)
-            }
+        const allFilesReread = mutation.filePaths.every((filePath) => {
+            const reads = readsByFile.get(filePath)
+            return !!reads && reads.some((readIndex) => readIndex > mutation.index)
+        })
+        if (allFilesReread) {
+            newPruneIds.push(mutation.id)
         }
     }
 
@@ -105,6 +102,6 @@ export const supersedeWrites = (
         for (const id of newPruneIds) {
             state.prune.toolIds.add(id)
         }
-        logger.debug(`Marked ${newPruneIds.length} superseded write tool calls for pruning`)
+        logger.debug(`Marked ${newPruneIds.length} superseded file change tool calls for pruning`)
     }
 }
@@ -0,0 +1,133 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { notifyStrategyPrune } from "./notify"
+import {
+    calculateTokensSaved,
+    getCurrentTokenUsage,
+    mustKeep,
+    parsePercentageString,
+    resolveContextLimit,
+} from "./utils"
+
+/**
+ * Token Budget strategy - deterministic fallback for when the context grows
+ * past `tools.settings.contextLimit` and the model does not manage it.
+ * Prunes unprotected tool outputs, favouring old and large ones, until the
+ * projected context drops below the configured target.
+ *
+ * Modifies the session state in place to add pruned tool call IDs and
+ * notifies the user about what was removed.
+ */
+export const tokenBudget = async (
+    client: any,
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+    workingDirectory: string,
+): Promise<void> => {
+    if (!config.strategies.tokenBudget.enabled) {
+        return
+    }
+
+    const contextLimit = resolveContextLimit(config, state)
+    if (contextLimit === undefined) {
+        return
+    }
+
+    const currentTokens = getCurrentTokenUsage(messages)
+    if (currentTokens <= contextLimit) {
+        return
+    }
+
+    const target = resolveBudgetTarget(config, contextLimit)
+    const protectedTools = [
+        ...config.tools.settings.protectedTools,
+        ...config.strategies.tokenBudget.protectedTools,
+    ]
+
+    // Turn-protected tools are not cached yet, so they never become candidates
+    const candidates: { id: string; tokenCount: number; score: number }[] = []
+    for (const id of state.toolIdList) {
+        if (
+            state.prune.toolIds.has(id) ||
+            state.prune.restoredToolIds.has(id) ||
+            mustKeep(state, id)
+        ) {
+            continue
+        }
+
+        const metadata = state.toolParameters.get(id)
+        if (!metadata || metadata.tokenCount === undefined || metadata.tokenCount === 0) {
+            continue
+        }
+
+        if (protectedTools.includes(metadata.tool)) {
+            continue
+        }
+
+        const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+        if (isProtected(filePaths, config.protectedFilePatterns)) {
+            continue
+        }
+
+        const turnAge = state.currentTurn - metadata.turn
+        candidates.push({
+            id,
+            tokenCount: metadata.tokenCount,
+            score: metadata.tokenCount * (turnAge + 1),
+        })
+    }
+
+    candidates.sort((a, b) => b.score - a.score)
+
+    let projectedTokens = currentTokens
+    const newPruneIds: string[] = []
+    for (const candidate of candidates) {
+        if (projectedTokens <= target) {
+            break
+        }
+        newPruneIds.push(candidate.id)
+        projectedTokens -= candidate.tokenCount
+    }
+
+    if (newPruneIds.length === 0) {
+        return
+    }
+
+    state.stats.pruneTokenCounter += calculateTokensSaved(state, messages, newPruneIds)
+    for (const id of newPruneIds) {
+        state.prune.toolIds.add(id)
+    }
+
+    logger.info("Token budget exceeded - pruned tool outputs", {
+        currentTokens,
+        contextLimit,
+        target,
+        pruned: newPruneIds.length,
+        projectedTokens,
+    })
+
+    await notifyStrategyPrune(
+        client,
+        state,
+        logger,
+        config,
+        messages,
+        newPruneIds,
+        "budget",
+        workingDirectory,
+    )
+}
+
+function resolveBudgetTarget(config: PluginConfig, contextLimit: number): number {
+    const configTarget = config.strategies.tokenBudget.target
+
+    if (typeof configTarget === "string") {
+        return parsePercentageString(configTarget, contextLimit) ?? contextLimit
+    }
+
+    return Math.min(configTarget, contextLimit)
+}
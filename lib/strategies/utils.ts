@@ -1,8 +1,49 @@
-import { SessionState, WithParts } from "../state"
+import { SessionState, StructuredDistillation, TrimRange, WithParts } from "../state"
 import { AssistantMessage, UserMessage } from "@opencode-ai/sdk/v2"
 import { Logger } from "../logger"
 import { countTokens as anthropicCountTokens } from "@anthropic-ai/tokenizer"
 import { getLastUserMessage, isMessageCompacted } from "../shared-utils"
+import type { PluginConfig } from "../config"
+import { getFilePathsFromParameters, matchesGlob } from "../protected-file-patterns"
+
+// Tools that modify files, carrying the change itself in their inputs
+export const MUTATING_TOOLS = ["write", "edit", "multiedit", "apply_patch"]
+
+// Relative pins match the same path under any directory
+function matchesPinnedPath(filePath: string, pin: string): boolean {
+    return (
+        matchesGlob(filePath, pin) || (!pin.startsWith("/") && matchesGlob(filePath, `**/${pin}`))
+    )
+}
+
+/**
+ * Checks whether a tool call was pinned by the pin tool, by its ID or by the
+ * file it operates on. Pinned outputs are never pruned.
+ */
+export function isPinned(state: SessionState, callId: string): boolean {
+    if (state.pinned.toolIds.has(callId)) {
+        return true
+    }
+    if (state.pinned.filePaths.size === 0) {
+        return false
+    }
+    const entry = state.toolParameters.get(callId)
+    if (!entry) {
+        return false
+    }
+    const filePaths = getFilePathsFromParameters(entry.tool, entry.parameters)
+    return filePaths.some((filePath) =>
+        [...state.pinned.filePaths].some((pin) => matchesPinnedPath(filePath, pin)),
+    )
+}
+
+/**
+ * Checks whether a tool call must be kept: pinned, or protected by a
+ * `protect` rule of the config. Every strategy and prune path honours it.
+ */
+export function mustKeep(state: SessionState, callId: string): boolean {
+    return state.ruleProtectedToolIds.has(callId) || isPinned(state, callId)
+}
 
 /**
  * Get current token usage from the last assistant message.
@@ -26,6 +67,40 @@ export function getCurrentTokenUsage(messages: WithParts[]): number {
     return 0
 }
 
+export function parsePercentageString(value: string, total: number): number | undefined {
+    if (!value.endsWith("%")) return undefined
+    const percent = parseFloat(value.slice(0, -1))
+
+    if (isNaN(percent)) {
+        return undefined
+    }
+
+    const roundedPercent = Math.round(percent)
+    const clampedPercent = Math.max(0, Math.min(100, roundedPercent))
+
+    return Math.round((clampedPercent / 100) * total)
+}
+
+export const resolveContextLimit = (
+    config: PluginConfig,
+    state: SessionState,
+): number | undefined => {
+    const configLimit = config.tools.settings.contextLimit
+
+    if (typeof configLimit === "string") {
+        if (configLimit.endsWith("%")) {
+            if (state.modelContextLimit === undefined) {
+                return undefined
+            }
+            return parsePercentageString(configLimit, state.modelContextLimit)
+        }
+
+        return undefined
+    }
+
+    return configLimit
+}
+
 export function getCurrentParams(
     state: SessionState,
     messages: WithParts[],
@@ -81,7 +156,7 @@ export function extractToolContent(part: any): string[] {
         return contents
     }
 
-    if (part.tool === "edit" || part.tool === "write") {
+    if (MUTATING_TOOLS.includes(part.tool)) {
         if (part.state?.input) {
             const inputContent =
                 typeof part.state.input === "string"
@@ -113,6 +188,145 @@ export function countToolTokens(part: any): number {
     return estimateTokensBatch(contents)
 }
 
+/**
+ * Keeps the first and last lines of a text, replacing everything in between
+ * with an elision marker. Returns the text unchanged if it is short enough.
+ */
+export function truncateHeadTail(text: string, keepLines: number): string {
+    const lines = text.split("\n")
+    if (lines.length <= keepLines) {
+        return text
+    }
+    const headCount = Math.ceil(keepLines / 2)
+    const tailCount = keepLines - headCount
+    const omitted = lines.length - keepLines
+    return [
+        ...lines.slice(0, headCount),
+        `[... ${omitted} lines omitted to save context ...]`,
+        ...lines.slice(lines.length - tailCount),
+    ].join("\n")
+}
+
+// Line number prefix of outputs that number their own lines, e.g. `00012| ` of read
+const OWN_LINE_NUMBER = /^\s*(\d+)(?:\|(?: |$)|\t)/
+
+/**
+ * Own line number of each line of an output that numbers its lines, like the
+ * read tool, or undefined when most of its lines carry none.
+ */
+export function getOwnLineNumbers(lines: string[]): (number | undefined)[] | undefined {
+    const numbers = lines.map((line) => {
+        const match = line.match(OWN_LINE_NUMBER)
+        return match ? parseInt(match[1], 10) : undefined
+    })
+    const numbered = numbers.filter((number) => number !== undefined).length
+    const nonEmpty = lines.filter((line) => line.trim() !== "").length
+    return numbered > 0 && numbered * 2 >= nonEmpty ? numbers : undefined
+}
+
+/**
+ * Keeps the given ranges of output lines verbatim and marks the lines omitted
+ * between them. Lines are prefixed with their position in the output, unless
+ * the output numbers its own lines.
+ */
+export function renderTrimmedOutput(text: string, ranges: TrimRange[]): string {
+    const lines = text.split("\n")
+    const ownNumbers = getOwnLineNumbers(lines) !== undefined
+    const omitted = (from: number, to: number): string =>
+        ownNumbers
+            ? `[... ${to - from + 1} lines omitted ...]`
+            : `[... ${from === to ? `line ${from}` : `lines ${from}-${to}`} omitted ...]`
+    const result: string[] = []
+    let kept = 0
+    let previousEnd = 0
+    for (const [start, end] of ranges) {
+        const from = Math.max(start, previousEnd + 1)
+        const to = Math.min(end, lines.length)
+        if (from > to) {
+            continue
+        }
+        if (from > previousEnd + 1) {
+            result.push(omitted(previousEnd + 1, from - 1))
+        }
+        for (let i = from; i <= to; i++) {
+            result.push(ownNumbers ? lines[i - 1] : `${i}: ${lines[i - 1]}`)
+        }
+        kept += to - from + 1
+        previousEnd = to
+    }
+    if (previousEnd < lines.length) {
+        result.push(omitted(previousEnd + 1, lines.length))
+    }
+    return [
+        `[Trimmed to ${kept} of ${lines.length} lines to save context - line numbers refer to the original output]`,
+        ...result,
+    ].join("\n")
+}
+
+function toStringList(value: unknown): string[] {
+    return Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "")
+        : []
+}
+
+/**
+ * Reads the structured fields of a distill target. Returns undefined when the
+ * target only has a free-form distillation.
+ */
+export function getStructuredDistillation(target: any): StructuredDistillation | undefined {
+    const files = (Array.isArray(target?.files) ? target.files : [])
+        .filter((file: any) => typeof file?.path === "string" && file.path.trim() !== "")
+        .map((file: any) => ({
+            path: file.path,
+            symbols: toStringList(file.symbols),
+            signatures: toStringList(file.signatures),
+        }))
+    const facts = toStringList(target?.facts)
+    const decisions = toStringList(target?.decisions)
+    const openQuestions = toStringList(target?.open_questions)
+
+    if (files.length + facts.length + decisions.length + openQuestions.length === 0) {
+        return undefined
+    }
+    return { files, facts, decisions, openQuestions }
+}
+
+/**
+ * Renders a distillation in the compact form shown in context: the free-form
+ * text first, then one section per non-empty structured field.
+ */
+export function renderDistillation(
+    text: string | undefined,
+    structured: StructuredDistillation | undefined,
+): string {
+    const lines: string[] = text?.trim() ? [text.trim()] : []
+    if (!structured) {
+        return lines.join("\n")
+    }
+
+    if (structured.files?.length) {
+        lines.push("Files:")
+        for (const file of structured.files) {
+            const symbols = file.symbols?.length ? ` - ${file.symbols.join(", ")}` : ""
+            lines.push(`- ${file.path}${symbols}`)
+            for (const signature of file.signatures ?? []) {
+                lines.push(`    ${signature}`)
+            }
+        }
+    }
+    const sections: [string, string[] | undefined][] = [
+        ["Facts", structured.facts],
+        ["Decisions", structured.decisions],
+        ["Open questions", structured.openQuestions],
+    ]
+    for (const [title, items] of sections) {
+        if (items?.length) {
+            lines.push(`${title}:`, ...items.map((item) => `- ${item}`))
+        }
+    }
+    return lines.join("\n")
+}
+
 export const calculateTokensSaved = (
     state: SessionState,
     messages: WithParts[],
@@ -137,3 +351,37 @@ export const calculateTokensSaved = (
         return 0
     }
 }
+
+export const PRUNED_REASONING_REPLACEMENT = "[reasoning removed to save context]"
+
+// Provider metadata keys carrying a signature or encrypted payload that is
+// verified against the reasoning text (Anthropic/Bedrock signature and
+// redactedData, Google thoughtSignature, OpenAI reasoningEncryptedContent)
+const SIGNED_REASONING_KEY_REGEX = /signature|redacted|encrypted/i
+
+/**
+ * Checks whether a reasoning part is signed by its provider. Signed reasoning
+ * must be sent back verbatim: altering its text makes the request fail, so it
+ * can only be dropped entirely.
+ */
+export function isSignedReasoningPart(part: any): boolean {
+    const hasSignedKey = (value: unknown, depth: number): boolean => {
+        if (!value || typeof value !== "object" || depth > 3) {
+            return false
+        }
+        return Object.entries(value).some(
+            ([key, nested]) =>
+                (SIGNED_REASONING_KEY_REGEX.test(key) && Boolean(nested)) ||
+                hasSignedKey(nested, depth + 1),
+        )
+    }
+    return hasSignedKey(part?.metadata, 0)
+}
+
+/**
+ * Returns the text a pruned reasoning part is rendered with: the placeholder
+ * when keepLines is 0, its first and last lines otherwise.
+ */
+export function renderPrunedReasoning(text: string, keepLines: number): string {
+    return keepLines > 0 ? truncateHeadTail(text, keepLines) : PRUNED_REASONING_REPLACEMENT
+}
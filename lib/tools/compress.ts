@@ -1,67 +1,89 @@
 import { tool } from "@opencode-ai/plugin"
-import type { WithParts, CompressSummary } from "../state"
+import type { WithParts, CompressSummary, SessionState } from "../state"
 import type { PruneToolContext } from "./types"
 import { ensureSessionInitialized } from "../state"
 import { saveSessionState } from "../state/persistence"
-import { loadPrompt } from "../prompts"
+import { getToolFlags, renderToolSpec } from "../prompts"
 import { estimateTokensBatch, getCurrentParams } from "../strategies/utils"
 import {
     collectContentInRange,
-    findStringInMessages,
+    findCompressRange,
+    validateCompressBoundaries,
     collectToolIdsInRange,
     collectMessageIdsInRange,
 } from "./utils"
+import { buildMessageBlocks, formatPreview, getMessagePreview } from "../messages/utils"
 import { sendCompressNotification } from "../ui/notification"
-
-const COMPRESS_TOOL_DESCRIPTION = loadPrompt("compress-tool-spec")
+import { formatTokenCount } from "../ui/utils"
 
 export function createCompressTool(ctx: PruneToolContext): ReturnType<typeof tool> {
     return tool({
-        description: COMPRESS_TOOL_DESCRIPTION,
+        description: renderToolSpec("compress-tool-spec", getToolFlags(ctx.config)),
         args: {
             topic: tool.schema
                 .string()
                 .describe("Short label (3-5 words) for display - e.g., 'Auth System Exploration'"),
             content: tool.schema
                 .object({
+                    startId: tool.schema
+                        .string()
+                        .optional()
+                        .describe(
+                            "Message ID from <compress-context> marking the beginning of range",
+                        ),
+                    endId: tool.schema
+                        .string()
+                        .optional()
+                        .describe("Message ID from <compress-context> marking the end of range"),
                     startString: tool.schema
                         .string()
-                        .describe("Unique text from conversation marking the beginning of range"),
+                        .optional()
+                        .describe(
+                            "Unique text from conversation marking the beginning of range (fallback when IDs are not used)",
+                        ),
                     endString: tool.schema
                         .string()
-                        .describe("Unique text marking the end of range"),
+                        .optional()
+                        .describe(
+                            "Unique text marking the end of range (fallback when IDs are not used)",
+                        ),
                     summary: tool.schema
                         .string()
-                        .describe("Complete technical summary replacing all content in range"),
+                        .optional()
+                        .describe(
+                            "Complete technical summary replacing all content in range (not needed for a dry run)",
+                        ),
                 })
                 .describe("The compression details: boundaries and replacement summary"),
+            dryRun: tool.schema
+                .boolean()
+                .optional()
+                .describe(
+                    "Preview what the range covers without compressing anything. Nothing is changed",
+                ),
         },
         async execute(args, toolCtx) {
             const { client, state, logger } = ctx
             const sessionId = toolCtx.sessionID
+            const dryRun = args.dryRun === true
 
-            await toolCtx.ask({
-                permission: "compress",
-                patterns: ["*"],
-                always: ["*"],
-                metadata: {},
-            })
+            // A dry run changes nothing, so it needs no permission
+            if (!dryRun) {
+                await toolCtx.ask({
+                    permission: "compress",
+                    patterns: ["*"],
+                    always: ["*"],
+                    metadata: {},
+                })
+            }
 
             const { topic, content } = args
-            const { startString, endString, summary } = content || {}
+            const { summary } = content || {}
 
             if (!topic || typeof topic !== "string") {
                 throw new Error("topic is required and must be a non-empty string")
             }
-            if (!startString || typeof startString !== "string") {
-                throw new Error("content.startString is required and must be a non-empty string")
-            }
-            if (!endString || typeof endString !== "string") {
-                throw new Error("content.endString is required and must be a non-empty string")
-            }
-            if (!summary || typeof summary !== "string") {
-                throw new Error("content.summary is required and must be a non-empty string")
-            }
+            validateCompressBoundaries(content || {})
 
             // logger.info("Compress tool invoked")
             // logger.info(
@@ -80,26 +102,8 @@ export function createCompressTool(ctx: PruneToolContext): ReturnType<typeof too
 
             await ensureSessionInitialized(client, state, sessionId, logger, messages)
 
-            const startResult = findStringInMessages(
-                messages,
-                startString,
-                logger,
-                state.compressSummaries,
-                "startString",
-            )
-            const endResult = findStringInMessages(
-                messages,
-                endString,
-                logger,
-                state.compressSummaries,
-                "endString",
-            )
-
-            if (startResult.messageIndex > endResult.messageIndex) {
-                throw new Error(
-                    `startString appears after endString in the conversation. Start must come before end.`,
-                )
-            }
+            buildMessageBlocks(state, messages, logger)
+            const { startResult, endResult } = findCompressRange(state, messages, content, logger)
 
             const containedToolIds = collectToolIdsInRange(
                 messages,
@@ -113,40 +117,77 @@ export function createCompressTool(ctx: PruneToolContext): ReturnType<typeof too
                 endResult.messageIndex,
             )
 
-            for (const id of containedToolIds) {
+            if (dryRun) {
+                return formatCompressPreview(
+                    state,
+                    messages,
+                    startResult,
+                    endResult,
+                    containedToolIds,
+                    containedMessageIds,
+                )
+            }
+
+            if (!summary || typeof summary !== "string") {
+                throw new Error("content.summary is required and must be a non-empty string")
+            }
+
+            // Already compressed messages are rendered as their summary, which the
+            // new summary replaces
+            const absorbedSummaries = findAbsorbedSummaries(state, containedMessageIds)
+            const estimatedCompressedTokens = estimateCompressedTokens(
+                state,
+                messages,
+                startResult,
+                endResult,
+                absorbedSummaries,
+            )
+
+            const operationId = Math.max(0, ...state.compressOperations.map((op) => op.id)) + 1
+            const newToolIds = containedToolIds.filter((id) => !state.prune.toolIds.has(id))
+            const newMessageIds = containedMessageIds.filter(
+                (id) => !state.prune.messageIds.has(id),
+            )
+
+            for (const id of newToolIds) {
                 state.prune.toolIds.add(id)
             }
-            for (const id of containedMessageIds) {
+            for (const id of newMessageIds) {
                 state.prune.messageIds.add(id)
             }
 
-            // Remove any existing summaries whose anchors are now inside this range
-            // This prevents duplicate injections when a larger compress subsumes a smaller one
-            const removedSummaries = state.compressSummaries.filter((s) =>
-                containedMessageIds.includes(s.anchorMessageId),
-            )
-            if (removedSummaries.length > 0) {
-                // logger.info("Removing subsumed compress summaries", {
-                //     count: removedSummaries.length,
-                //     anchorIds: removedSummaries.map((s) => s.anchorMessageId),
-                // })
+            // Summaries whose anchors are now inside this range are rolled up as
+            // children of the new summary, so they are not injected twice and
+            // their lineage is kept
+            if (absorbedSummaries.length > 0) {
                 state.compressSummaries = state.compressSummaries.filter(
-                    (s) => !containedMessageIds.includes(s.anchorMessageId),
+                    (s) => !absorbedSummaries.includes(s),
                 )
             }
 
             const compressSummary: CompressSummary = {
                 anchorMessageId: startResult.messageId,
                 summary: summary,
+                topic: topic,
+                startMessageId: startResult.messageId,
+                endMessageId: findRangeEnd(messages, endResult, absorbedSummaries),
+                createdTurn: state.currentTurn,
+                operationId: operationId,
+            }
+            if (absorbedSummaries.length > 0) {
+                compressSummary.children = absorbedSummaries
             }
             state.compressSummaries.push(compressSummary)
-
-            const contentsToTokenize = collectContentInRange(
-                messages,
-                startResult.messageIndex,
-                endResult.messageIndex,
-            )
-            const estimatedCompressedTokens = estimateTokensBatch(contentsToTokenize)
+            state.compressOperations.push({
+                id: operationId,
+                topic: topic,
+                anchorMessageId: startResult.messageId,
+                messageIds: newMessageIds,
+                toolIds: newToolIds,
+                absorbedAnchorIds: absorbedSummaries.map((s) => s.anchorMessageId),
+                tokens: estimatedCompressedTokens,
+                createdTurn: state.currentTurn,
+            })
 
             state.stats.pruneTokenCounter += estimatedCompressedTokens
 
@@ -184,7 +225,95 @@ export function createCompressTool(ctx: PruneToolContext): ReturnType<typeof too
             )
 
             const messagesCompressed = endResult.messageIndex - startResult.messageIndex + 1
-            return `Compressed ${messagesCompressed} messages (${containedToolIds.length} tool calls) into summary. The content will be replaced with your summary.`
+            return `Compressed ${messagesCompressed} messages (${containedToolIds.length} tool calls) into summary as operation #${operationId}. The content will be replaced with your summary.`
         },
     })
 }
+
+function formatCompressPreview(
+    state: SessionState,
+    messages: WithParts[],
+    startResult: { messageId: string; messageIndex: number },
+    endResult: { messageId: string; messageIndex: number },
+    containedToolIds: string[],
+    containedMessageIds: string[],
+): string {
+    const describeBoundary = (result: { messageId: string; messageIndex: number }): string => {
+        const msg = messages[result.messageIndex]
+        const blockId = state.messageBlocks.findIndex((b) => b.messageId === result.messageId)
+        const turn = blockId !== -1 ? state.messageBlocks[blockId].turn : undefined
+        const label =
+            blockId !== -1 ? `ID ${blockId}, turn ${turn}` : `message ${result.messageIndex}`
+        return `${label}, ${msg.info.role} - ${getMessagePreview(msg)}`
+    }
+
+    const absorbedSummaries = findAbsorbedSummaries(state, containedMessageIds)
+    const estimatedTokens = estimateCompressedTokens(
+        state,
+        messages,
+        startResult,
+        endResult,
+        absorbedSummaries,
+    )
+
+    const lines = [
+        "Compress preview (dry run, nothing was changed).",
+        "",
+        `Start: ${describeBoundary(startResult)}`,
+        `End: ${describeBoundary(endResult)}`,
+        `Range: ${containedMessageIds.length} messages, ${containedToolIds.length} tool calls`,
+        `Estimated content: ~${formatTokenCount(estimatedTokens)} (minus your summary once compressed)`,
+    ]
+    if (absorbedSummaries.length > 0) {
+        lines.push(
+            `Rolls up ${absorbedSummaries.length} existing compressed block(s) into a higher-level summary:`,
+        )
+        for (const s of absorbedSummaries) {
+            const label = s.topic ? `${s.topic}: ` : ""
+            lines.push(`→ ${label}${formatPreview(s.summary)}`)
+        }
+    }
+    return lines.join("\n")
+}
+
+function findAbsorbedSummaries(
+    state: SessionState,
+    containedMessageIds: string[],
+): CompressSummary[] {
+    return state.compressSummaries.filter((s) => containedMessageIds.includes(s.anchorMessageId))
+}
+
+function estimateCompressedTokens(
+    state: SessionState,
+    messages: WithParts[],
+    startResult: { messageId: string; messageIndex: number },
+    endResult: { messageId: string; messageIndex: number },
+    absorbedSummaries: CompressSummary[],
+): number {
+    const contents = collectContentInRange(
+        messages,
+        startResult.messageIndex,
+        endResult.messageIndex,
+        state.prune.messageIds,
+    )
+    return estimateTokensBatch([...contents, ...absorbedSummaries.map((s) => s.summary)])
+}
+
+// A range ending on the anchor of a compressed block also covers the rest of
+// that block
+function findRangeEnd(
+    messages: WithParts[],
+    endResult: { messageId: string; messageIndex: number },
+    absorbedSummaries: CompressSummary[],
+): string {
+    let endId = endResult.messageId
+    let endIndex = endResult.messageIndex
+    for (const s of absorbedSummaries) {
+        const index = messages.findIndex((msg) => msg.info.id === s.endMessageId)
+        if (s.endMessageId && index > endIndex) {
+            endId = s.endMessageId
+            endIndex = index
+        }
+    }
+    return endId
+}
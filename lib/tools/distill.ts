@@ -1,14 +1,14 @@
 import { tool } from "@opencode-ai/plugin"
+import type { StructuredDistillation } from "../state"
 import type { PruneToolContext } from "./types"
 import { executePruneOperation } from "./prune-shared"
 import { PruneReason } from "../ui/notification"
-import { loadPrompt } from "../prompts"
-
-const DISTILL_TOOL_DESCRIPTION = loadPrompt("distill-tool-spec")
+import { getToolFlags, renderToolSpec } from "../prompts"
+import { getStructuredDistillation, renderDistillation } from "../strategies/utils"
 
 export function createDistillTool(ctx: PruneToolContext): ReturnType<typeof tool> {
     return tool({
-        description: DISTILL_TOOL_DESCRIPTION,
+        description: renderToolSpec("distill-tool-spec", getToolFlags(ctx.config)),
         args: {
             targets: tool.schema
                 .array(
@@ -18,10 +18,41 @@ export function createDistillTool(ctx: PruneToolContext): ReturnType<typeof tool
                             .describe("Numeric ID from the <prunable-tools> list"),
                         distillation: tool.schema
                             .string()
+                            .optional()
                             .describe("Complete technical distillation for this tool output"),
+                        files: tool.schema
+                            .array(
+                                tool.schema.object({
+                                    path: tool.schema.string().describe("File path"),
+                                    symbols: tool.schema
+                                        .array(tool.schema.string())
+                                        .optional()
+                                        .describe("Relevant symbols defined in the file"),
+                                    signatures: tool.schema
+                                        .array(tool.schema.string())
+                                        .optional()
+                                        .describe("Key signatures, verbatim"),
+                                }),
+                            )
+                            .optional()
+                            .describe("Files the output covered"),
+                        facts: tool.schema
+                            .array(tool.schema.string())
+                            .optional()
+                            .describe("Established technical facts"),
+                        decisions: tool.schema
+                            .array(tool.schema.string())
+                            .optional()
+                            .describe("Decisions made based on the output"),
+                        open_questions: tool.schema
+                            .array(tool.schema.string())
+                            .optional()
+                            .describe("Questions the output left unanswered"),
                     }),
                 )
-                .describe("Tool outputs to distill, each pairing an ID with its distillation"),
+                .describe(
+                    "Tool outputs to distill, each pairing an ID with a distillation, structured fields, or both",
+                ),
         },
         async execute(args, toolCtx) {
             if (!args.targets || !Array.isArray(args.targets) || args.targets.length === 0) {
@@ -29,6 +60,7 @@ export function createDistillTool(ctx: PruneToolContext): ReturnType<typeof tool
                 throw new Error("Missing targets. Provide at least one { id, distillation } entry.")
             }
 
+            const structuredById = new Map<string, StructuredDistillation>()
             for (const target of args.targets) {
                 if (!target.id || typeof target.id !== "string" || target.id.trim() === "") {
                     ctx.logger.debug("Distill target missing id: " + JSON.stringify(target))
@@ -36,16 +68,27 @@ export function createDistillTool(ctx: PruneToolContext): ReturnType<typeof tool
                         "Each target must have an id (numeric string from <prunable-tools>).",
                     )
                 }
-                if (!target.distillation || typeof target.distillation !== "string") {
+                const structured = getStructuredDistillation(target)
+                if (
+                    !structured &&
+                    (!target.distillation || typeof target.distillation !== "string")
+                ) {
                     ctx.logger.debug(
                         "Distill target missing distillation: " + JSON.stringify(target),
                     )
-                    throw new Error("Each target must have a distillation string.")
+                    throw new Error(
+                        "Each target must have a distillation string or at least one of files, facts, decisions, open_questions.",
+                    )
+                }
+                if (structured) {
+                    structuredById.set(target.id, structured)
                 }
             }
 
             const ids = args.targets.map((t) => t.id)
-            const distillations = args.targets.map((t) => t.distillation)
+            const distillations = args.targets.map((t) =>
+                renderDistillation(t.distillation, structuredById.get(t.id)),
+            )
 
             return executePruneOperation(
                 ctx,
@@ -53,7 +96,7 @@ export function createDistillTool(ctx: PruneToolContext): ReturnType<typeof tool
                 ids,
                 "extraction" as PruneReason,
                 "Distill",
-                distillations,
+                { distillation: distillations, structuredById },
             )
         },
     })
@@ -2,3 +2,8 @@ export { PruneToolContext } from "./types"
 export { createPruneTool } from "./prune"
 export { createDistillTool } from "./distill"
 export { createCompressTool } from "./compress"
+export { createRestoreTool } from "./restore"
+export { createRecallTool } from "./recall"
+export { createUncompressTool } from "./uncompress"
+export { createPinTool } from "./pin"
+export { createTrimTool } from "./trim"
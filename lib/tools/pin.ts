@@ -0,0 +1,135 @@
+import { tool } from "@opencode-ai/plugin"
+import type { ToolParameterEntry, WithParts } from "../state"
+import type { PruneToolContext } from "./types"
+import { ensureSessionInitialized } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { syncToolCache } from "../state/tool-cache"
+import { buildToolIdList } from "../messages/utils"
+import { loadPrompt } from "../prompts"
+import { formatPrunedItemsList } from "../ui/utils"
+
+const PIN_TOOL_DESCRIPTION = loadPrompt("pin-tool-spec")
+
+export function createPinTool(ctx: PruneToolContext): ReturnType<typeof tool> {
+    return tool({
+        description: PIN_TOOL_DESCRIPTION,
+        args: {
+            ids: tool.schema
+                .array(tool.schema.string())
+                .optional()
+                .describe("Numeric IDs as strings from the <prunable-tools> list to pin"),
+            paths: tool.schema
+                .array(tool.schema.string())
+                .optional()
+                .describe("File paths or globs whose tool outputs should be pinned"),
+            unpin: tool.schema
+                .boolean()
+                .optional()
+                .describe("Remove the given pins instead of adding them"),
+        },
+        async execute(args, toolCtx) {
+            const { client, state, logger, config, workingDirectory } = ctx
+            const sessionId = toolCtx.sessionID
+            const unpin = args.unpin === true
+
+            logger.info("Pin tool invoked")
+            logger.info(JSON.stringify({ ids: args.ids, paths: args.paths, unpin }))
+
+            const ids = Array.isArray(args.ids) ? args.ids : []
+            const paths = (Array.isArray(args.paths) ? args.paths : [])
+                .map((p) => p.trim())
+                .filter(Boolean)
+
+            if (ids.length === 0 && paths.length === 0) {
+                logger.debug("Pin tool called without targets: " + JSON.stringify(args))
+                throw new Error("Missing targets. Provide ids, paths, or both.")
+            }
+
+            const messagesResponse = await client.session.messages({
+                path: { id: sessionId },
+            })
+            const messages: WithParts[] = messagesResponse.data || messagesResponse
+
+            await ensureSessionInitialized(client, state, sessionId, logger, messages)
+            syncToolCache(state, config, logger, messages, workingDirectory)
+            buildToolIdList(state, messages, logger)
+
+            const toolIdList = state.toolIdList
+            const pinToolIds: string[] = []
+            const skippedIds: string[] = []
+
+            for (const rawId of ids) {
+                const index = parseInt(rawId, 10)
+                if (isNaN(index) || index < 0 || index >= toolIdList.length) {
+                    logger.debug(`Rejecting pin request - index out of bounds: ${rawId}`)
+                    skippedIds.push(rawId)
+                    continue
+                }
+
+                const id = toolIdList[index]
+                if (!unpin && (!state.toolParameters.has(id) || state.prune.toolIds.has(id))) {
+                    logger.debug("Rejecting pin request - not in context", { index, id })
+                    skippedIds.push(rawId)
+                    continue
+                }
+
+                if (!pinToolIds.includes(id)) {
+                    pinToolIds.push(id)
+                }
+            }
+
+            if (pinToolIds.length === 0 && paths.length === 0) {
+                throw new Error(
+                    `Invalid IDs provided: [${skippedIds.join(", ")}]. Only use numeric IDs from the <prunable-tools> list.`,
+                )
+            }
+
+            for (const id of pinToolIds) {
+                if (unpin) {
+                    state.pinned.toolIds.delete(id)
+                } else {
+                    state.pinned.toolIds.add(id)
+                }
+            }
+            for (const path of paths) {
+                if (unpin) {
+                    state.pinned.filePaths.delete(path)
+                } else {
+                    state.pinned.filePaths.add(path)
+                }
+            }
+
+            saveSessionState(state, logger).catch((err) =>
+                logger.error("Failed to persist state", { error: err.message }),
+            )
+
+            const toolMetadata = new Map<string, ToolParameterEntry>()
+            for (const id of pinToolIds) {
+                const toolParameters = state.toolParameters.get(id)
+                if (toolParameters) {
+                    toolMetadata.set(id, toolParameters)
+                }
+            }
+
+            const lines: string[] = [
+                unpin
+                    ? `Unpinned ${pinToolIds.length} tool outputs and ${paths.length} paths. They can be pruned again.`
+                    : `Pinned ${pinToolIds.length} tool outputs and ${paths.length} paths. They will not be pruned until unpinned.`,
+            ]
+            if (pinToolIds.length > 0) {
+                lines.push("")
+                lines.push(...formatPrunedItemsList(pinToolIds, toolMetadata, workingDirectory))
+            }
+            for (const path of paths) {
+                lines.push(`→ ${path}`)
+            }
+            if (skippedIds.length > 0) {
+                lines.push("")
+                lines.push(
+                    `Note: ${skippedIds.length} IDs were skipped (invalid or already pruned): ${skippedIds.join(", ")}`,
+                )
+            }
+            return lines.join("\n")
+        },
+    })
+}
@@ -1,4 +1,4 @@
-import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import type { SessionState, StructuredDistillation, ToolParameterEntry, WithParts } from "../state"
 import type { PluginConfig } from "../config"
 import type { Logger } from "../logger"
 import type { PruneToolContext } from "./types"
@@ -7,9 +7,20 @@ import { PruneReason, sendUnifiedNotification } from "../ui/notification"
 import { formatPruningResultForTool } from "../ui/utils"
 import { ensureSessionInitialized } from "../state"
 import { saveSessionState } from "../state/persistence"
-import { calculateTokensSaved, getCurrentParams } from "../strategies/utils"
+import { calculateTokensSaved, getCurrentParams, mustKeep } from "../strategies/utils"
 import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
 import { buildToolIdList } from "../messages/utils"
+import { calculateExtractionSavings } from "../smart-truncate"
+
+export interface PruneOperationOptions {
+    distillation?: string[]
+    // Reduce recognized bash outputs to their meaningful lines instead of removing them
+    extract?: boolean
+    // Numeric ID -> reason, overriding `reason` for that ID
+    reasonsById?: Map<string, PruneReason>
+    // Numeric ID -> structured distillation to keep for that output
+    structuredById?: Map<string, StructuredDistillation>
+}
 
 // Shared logic for executing prune operations.
 export async function executePruneOperation(
@@ -18,13 +29,25 @@ export async function executePruneOperation(
     ids: string[],
     reason: PruneReason,
     toolName: string,
-    distillation?: string[],
+    options: PruneOperationOptions = {},
 ): Promise<string> {
     const { client, state, logger, config, workingDirectory } = ctx
+    const {
+        distillation,
+        extract = false,
+        reasonsById = new Map<string, PruneReason>(),
+        structuredById = new Map<string, StructuredDistillation>(),
+    } = options
     const sessionId = toolCtx.sessionID
 
     logger.info(`${toolName} tool invoked`)
-    logger.info(JSON.stringify(reason ? { ids, reason } : { ids }))
+    logger.info(
+        JSON.stringify(
+            reasonsById.size > 0
+                ? { ids, reason, reasons: Object.fromEntries(reasonsById) }
+                : { ids, reason },
+        ),
+    )
 
     if (!ids || ids.length === 0) {
         logger.debug(`${toolName} tool called but ids is empty or undefined`)
@@ -51,7 +74,7 @@ export async function executePruneOperation(
     // These 3 are probably not needed as they should always be set in the message
     // transform handler, but in case something causes state to reset, this is a safety net
     await ensureSessionInitialized(ctx.client, state, sessionId, logger, messages)
-    syncToolCache(state, config, logger, messages)
+    syncToolCache(state, config, logger, messages, workingDirectory)
     buildToolIdList(state, messages, logger)
 
     const currentParams = getCurrentParams(state, messages, logger)
@@ -107,21 +130,55 @@ export async function executePruneOperation(
             continue
         }
 
+        if (mustKeep(state, id)) {
+            logger.debug("Rejecting prune request - pinned or protected by a rule", {
+                index,
+                id,
+                tool: metadata.tool,
+            })
+            skippedIds.push(index.toString())
+            continue
+        }
+
         validNumericIds.push(index)
     }
 
     if (validNumericIds.length === 0) {
         const errorMsg =
             skippedIds.length > 0
-                ? `Invalid IDs provided: [${skippedIds.join(", ")}]. Only use numeric IDs from the <prunable-tools> list.`
+                ? `Invalid IDs provided: [${skippedIds.join(", ")}]. Only use numeric IDs from the <prunable-tools> list that are not pinned.`
                 : `No valid IDs provided to ${toolName.toLowerCase()}.`
         throw new Error(errorMsg)
     }
 
     const pruneToolIds: string[] = validNumericIds.map((index) => toolIdList[index])
-    for (const id of pruneToolIds) {
+    const pruneReasons = new Map<string, PruneReason>()
+    for (const index of validNumericIds) {
+        pruneReasons.set(toolIdList[index], reasonsById.get(index.toString()) ?? reason)
+    }
+
+    // With extract, recognized bash outputs keep their meaningful lines instead of being removed
+    const extractionSavings = extract
+        ? calculateExtractionSavings(state, messages, pruneToolIds)
+        : new Map<string, number>()
+    const removedToolIds = pruneToolIds.filter((id) => !extractionSavings.has(id))
+
+    for (const id of removedToolIds) {
         state.prune.toolIds.add(id)
     }
+    for (const [id, tokensSaved] of extractionSavings) {
+        state.prune.extractedToolIds.add(id)
+        state.stats.pruneTokenCounter += tokensSaved
+    }
+    for (const [id, pruneReason] of pruneReasons) {
+        state.prune.reasons.set(id, pruneReason)
+    }
+    for (const index of validNumericIds) {
+        const structured = structuredById.get(index.toString())
+        if (structured) {
+            state.distillations.set(toolIdList[index], structured)
+        }
+    }
 
     const toolMetadata = new Map<string, ToolParameterEntry>()
     for (const id of pruneToolIds) {
@@ -133,7 +190,7 @@ export async function executePruneOperation(
         }
     }
 
-    state.stats.pruneTokenCounter += calculateTokensSaved(state, messages, pruneToolIds)
+    state.stats.pruneTokenCounter += calculateTokensSaved(state, messages, removedToolIds)
 
     await sendUnifiedNotification(
         client,
@@ -147,6 +204,7 @@ export async function executePruneOperation(
         currentParams,
         workingDirectory,
         distillation,
+        pruneReasons,
     )
 
     state.stats.totalPruneTokens += state.stats.pruneTokenCounter
@@ -158,6 +216,9 @@ export async function executePruneOperation(
     )
 
     let result = formatPruningResultForTool(pruneToolIds, toolMetadata, workingDirectory)
+    if (extractionSavings.size > 0) {
+        result += `\n\n${extractionSavings.size} bash output(s) were reduced to their meaningful lines instead of being removed.`
+    }
     if (skippedIds.length > 0) {
         result += `\n\nNote: ${skippedIds.length} IDs were skipped (invalid, protected, or missing metadata): ${skippedIds.join(", ")}`
     }
@@ -2,17 +2,31 @@ import { tool } from "@opencode-ai/plugin"
 import type { PruneToolContext } from "./types"
 import { executePruneOperation } from "./prune-shared"
 import { PruneReason } from "../ui/notification"
-import { loadPrompt } from "../prompts"
+import { getToolFlags, renderToolSpec } from "../prompts"
 
-const PRUNE_TOOL_DESCRIPTION = loadPrompt("prune-tool-spec")
+const MODEL_PRUNE_REASONS = ["completion", "noise", "superseded", "wrong-target"] as const
 
 export function createPruneTool(ctx: PruneToolContext): ReturnType<typeof tool> {
     return tool({
-        description: PRUNE_TOOL_DESCRIPTION,
+        description: renderToolSpec("prune-tool-spec", getToolFlags(ctx.config)),
         args: {
             ids: tool.schema
                 .array(tool.schema.string())
                 .describe("Numeric IDs as strings from the <prunable-tools> list to prune"),
+            reason: tool.schema
+                .enum(MODEL_PRUNE_REASONS)
+                .optional()
+                .describe("Why these outputs are pruned (default: noise)"),
+            reasons: tool.schema
+                .record(tool.schema.string(), tool.schema.enum(MODEL_PRUNE_REASONS))
+                .optional()
+                .describe("Per-ID reasons overriding `reason`, keyed by ID"),
+            extract: tool.schema
+                .boolean()
+                .optional()
+                .describe(
+                    "Keep only the meaningful lines (errors, failures, summaries) of recognized bash outputs instead of removing them",
+                ),
         },
         async execute(args, toolCtx) {
             if (!args.ids || !Array.isArray(args.ids) || args.ids.length === 0) {
@@ -28,9 +42,13 @@ export function createPruneTool(ctx: PruneToolContext): ReturnType<typeof tool>
             }
 
             const numericIds = args.ids
-            const reason = "noise"
+            const reason: PruneReason = args.reason ?? "noise"
+            const reasonsById = new Map<string, PruneReason>(Object.entries(args.reasons ?? {}))
 
-            return executePruneOperation(ctx, toolCtx, numericIds, reason, "Prune")
+            return executePruneOperation(ctx, toolCtx, numericIds, reason, "Prune", {
+                extract: args.extract === true,
+                reasonsById,
+            })
         },
     })
 }
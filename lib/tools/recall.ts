@@ -0,0 +1,53 @@
+import { tool } from "@opencode-ai/plugin"
+import type { PruneToolContext } from "./types"
+import { loadArchive, searchArchive, type ArchiveMatch } from "../state/archive"
+import { loadPrompt } from "../prompts"
+
+const RECALL_TOOL_DESCRIPTION = loadPrompt("recall-tool-spec")
+
+export function createRecallTool(ctx: PruneToolContext): ReturnType<typeof tool> {
+    return tool({
+        description: RECALL_TOOL_DESCRIPTION,
+        args: {
+            query: tool.schema
+                .string()
+                .describe("Keywords or a file path to search the archive of pruned content for"),
+        },
+        async execute(args, toolCtx) {
+            const { logger, config } = ctx
+
+            logger.info("Recall tool invoked")
+            logger.info(JSON.stringify({ query: args.query }))
+
+            if (!args.query || typeof args.query !== "string" || args.query.trim() === "") {
+                logger.debug("Recall tool called without query: " + JSON.stringify(args))
+                throw new Error("Missing query. Provide keywords or a file path to search for.")
+            }
+
+            const entries = await loadArchive(toolCtx.sessionID, logger)
+            if (entries.length === 0) {
+                return "The archive is empty. Nothing has been pruned or compressed in this session yet."
+            }
+
+            const matches = searchArchive(entries, args.query, config.tools.recall.maxResults)
+            if (matches.length === 0) {
+                return `No archived content matches "${args.query}". Every term must appear in the tool name, its parameter or its content.`
+            }
+
+            return formatRecallResult(args.query, matches)
+        },
+    })
+}
+
+function formatRecallResult(query: string, matches: ArchiveMatch[]): string {
+    const lines: string[] = [`Found ${matches.length} archived entries matching "${query}":`]
+    for (const { entry, snippet } of matches) {
+        const label = entry.tool
+            ? `${entry.tool}${entry.parameterKey ? `, ${entry.parameterKey}` : ""}`
+            : "message content"
+        lines.push("")
+        lines.push(`▣ ${label} (turn ${entry.turn}, ${entry.reason})`)
+        lines.push(snippet)
+    }
+    return lines.join("\n")
+}
@@ -0,0 +1,164 @@
+import { tool } from "@opencode-ai/plugin"
+import type { ToolParameterEntry, WithParts } from "../state"
+import type { PruneToolContext } from "./types"
+import { ensureSessionInitialized } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { syncToolCache } from "../state/tool-cache"
+import { buildToolIdList } from "../messages/utils"
+import { loadPrompt } from "../prompts"
+import { calculateTokensSaved, getCurrentParams } from "../strategies/utils"
+import { sendRestoreNotification } from "../ui/notification"
+import { formatRestoreResultForTool } from "../ui/utils"
+
+const RESTORE_TOOL_DESCRIPTION = loadPrompt("restore-tool-spec")
+
+export function createRestoreTool(ctx: PruneToolContext): ReturnType<typeof tool> {
+    return tool({
+        description: RESTORE_TOOL_DESCRIPTION,
+        args: {
+            ids: tool.schema
+                .array(tool.schema.string())
+                .describe("Numeric IDs as strings of previously pruned tool outputs to restore"),
+        },
+        async execute(args, toolCtx) {
+            const { client, state, logger, config, workingDirectory } = ctx
+            const sessionId = toolCtx.sessionID
+
+            logger.info("Restore tool invoked")
+            logger.info(JSON.stringify({ ids: args.ids }))
+
+            if (!args.ids || !Array.isArray(args.ids) || args.ids.length === 0) {
+                logger.debug("Restore tool called without ids: " + JSON.stringify(args))
+                throw new Error("Missing ids. You must provide at least one ID to restore.")
+            }
+
+            const numericToolIds: number[] = args.ids
+                .map((id) => parseInt(id, 10))
+                .filter((n): n is number => !isNaN(n))
+
+            if (numericToolIds.length === 0) {
+                logger.debug("No numeric tool IDs provided for Restore: " + JSON.stringify(args))
+                throw new Error("No numeric IDs provided. Format: ids: [id1, id2, ...]")
+            }
+
+            const messagesResponse = await client.session.messages({
+                path: { id: sessionId },
+            })
+            const messages: WithParts[] = messagesResponse.data || messagesResponse
+
+            await ensureSessionInitialized(client, state, sessionId, logger, messages)
+            syncToolCache(state, config, logger, messages, workingDirectory)
+            buildToolIdList(state, messages, logger)
+
+            const currentParams = getCurrentParams(state, messages, logger)
+            const toolIdList = state.toolIdList
+            const compressedToolIds = collectCompressedToolIds(state.prune.messageIds, messages)
+
+            const restoreToolIds: string[] = []
+            const skippedIds: string[] = []
+
+            for (const index of numericToolIds) {
+                if (index < 0 || index >= toolIdList.length) {
+                    logger.debug(`Rejecting restore request - index out of bounds: ${index}`)
+                    skippedIds.push(index.toString())
+                    continue
+                }
+
+                const id = toolIdList[index]
+                if (!state.prune.toolIds.has(id)) {
+                    logger.debug("Rejecting restore request - tool not pruned", { index, id })
+                    skippedIds.push(index.toString())
+                    continue
+                }
+
+                // Compressed ranges are replaced by their summary as a whole
+                if (compressedToolIds.has(id)) {
+                    logger.debug("Rejecting restore request - tool inside a compressed range", {
+                        index,
+                        id,
+                    })
+                    skippedIds.push(index.toString())
+                    continue
+                }
+
+                if (!restoreToolIds.includes(id)) {
+                    restoreToolIds.push(id)
+                }
+            }
+
+            if (restoreToolIds.length === 0) {
+                throw new Error(
+                    `Invalid IDs provided: [${skippedIds.join(", ")}]. Only previously pruned tool outputs can be restored.`,
+                )
+            }
+
+            const tokensRestored = calculateTokensSaved(state, messages, restoreToolIds)
+
+            for (const id of restoreToolIds) {
+                state.prune.toolIds.delete(id)
+                state.prune.collapsedToolIds.delete(id)
+                state.prune.truncatedToolIds.delete(id)
+                state.prune.extractedToolIds.delete(id)
+                state.prune.trimmedToolIds.delete(id)
+                state.prune.changedOnDiskToolIds.delete(id)
+                state.prune.reasons.delete(id)
+                state.prune.restoredToolIds.add(id)
+            }
+
+            state.stats.totalPruneTokens = Math.max(
+                0,
+                state.stats.totalPruneTokens - tokensRestored,
+            )
+            state.cacheScheduler.flushRequested = true
+
+            const toolMetadata = new Map<string, ToolParameterEntry>()
+            for (const id of restoreToolIds) {
+                const toolParameters = state.toolParameters.get(id)
+                if (toolParameters) {
+                    toolMetadata.set(id, toolParameters)
+                } else {
+                    logger.debug("No metadata found for ID", { id })
+                }
+            }
+
+            await sendRestoreNotification(
+                client,
+                logger,
+                config,
+                state,
+                sessionId,
+                restoreToolIds,
+                toolMetadata,
+                tokensRestored,
+                currentParams,
+                workingDirectory,
+            )
+
+            saveSessionState(state, logger).catch((err) =>
+                logger.error("Failed to persist state", { error: err.message }),
+            )
+
+            let result = formatRestoreResultForTool(restoreToolIds, toolMetadata, workingDirectory)
+            if (skippedIds.length > 0) {
+                result += `\n\nNote: ${skippedIds.length} IDs were skipped (invalid, not pruned, or compressed): ${skippedIds.join(", ")}`
+            }
+            return result
+        },
+    })
+}
+
+function collectCompressedToolIds(messageIds: Set<string>, messages: WithParts[]): Set<string> {
+    const toolIds = new Set<string>()
+    for (const msg of messages) {
+        if (!messageIds.has(msg.info.id)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type === "tool") {
+                toolIds.add(part.callID)
+            }
+        }
+    }
+    return toolIds
+}
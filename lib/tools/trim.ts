@@ -0,0 +1,188 @@
+import { tool } from "@opencode-ai/plugin"
+import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import type { PruneToolContext } from "./types"
+import { ensureSessionInitialized } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { syncToolCache } from "../state/tool-cache"
+import { buildToolIdList } from "../messages/utils"
+import { loadPrompt } from "../prompts"
+import { countTokens, getCurrentParams, mustKeep, renderTrimmedOutput } from "../strategies/utils"
+import { getFilePathsFromParameters, isProtected } from "../protected-file-patterns"
+import { isMessageCompacted } from "../shared-utils"
+import { sendUnifiedNotification } from "../ui/notification"
+import { formatTokenCount } from "../ui/utils"
+import { matchTrimRanges, mergeTrimRanges, parseTrimRanges } from "./utils"
+
+const TRIM_TOOL_DESCRIPTION = loadPrompt("trim-tool-spec")
+
+export function createTrimTool(ctx: PruneToolContext): ReturnType<typeof tool> {
+    return tool({
+        description: TRIM_TOOL_DESCRIPTION,
+        args: {
+            id: tool.schema
+                .string()
+                .describe("Numeric ID as a string from the <prunable-tools> list to trim"),
+            ranges: tool.schema
+                .array(tool.schema.string())
+                .optional()
+                .describe('Line ranges of the output to keep, e.g. ["12-40", "88"]'),
+            pattern: tool.schema
+                .string()
+                .optional()
+                .describe("Regular expression; lines of the output matching it are kept"),
+            context: tool.schema
+                .number()
+                .optional()
+                .describe("Lines to keep around each pattern match (default 0)"),
+        },
+        async execute(args, toolCtx) {
+            const { client, state, logger, config, workingDirectory } = ctx
+            const sessionId = toolCtx.sessionID
+
+            logger.info("Trim tool invoked")
+            logger.info(
+                JSON.stringify({
+                    id: args.id,
+                    ranges: args.ranges,
+                    pattern: args.pattern,
+                    context: args.context,
+                }),
+            )
+
+            const index = parseInt(args.id, 10)
+            if (isNaN(index)) {
+                logger.debug("Trim tool called without numeric id: " + JSON.stringify(args))
+                throw new Error(
+                    "Missing id. Provide one numeric ID from the <prunable-tools> list.",
+                )
+            }
+            const hasRanges = Array.isArray(args.ranges) && args.ranges.length > 0
+            if (!hasRanges && !args.pattern) {
+                throw new Error("Nothing to keep. Provide ranges, a pattern, or both.")
+            }
+
+            const messagesResponse = await client.session.messages({
+                path: { id: sessionId },
+            })
+            const messages: WithParts[] = messagesResponse.data || messagesResponse
+
+            await ensureSessionInitialized(client, state, sessionId, logger, messages)
+            syncToolCache(state, config, logger, messages, workingDirectory)
+            buildToolIdList(state, messages, logger)
+
+            const toolIdList = state.toolIdList
+            if (index < 0 || index >= toolIdList.length) {
+                throw new Error(
+                    `Invalid ID: ${args.id}. Only use numeric IDs from the <prunable-tools> list.`,
+                )
+            }
+
+            const id = toolIdList[index]
+            const metadata = state.toolParameters.get(id)
+            if (!metadata || state.prune.toolIds.has(id)) {
+                throw new Error(`Invalid ID: ${args.id}. The output is not in context.`)
+            }
+            const filePaths = getFilePathsFromParameters(metadata.tool, metadata.parameters)
+            if (
+                config.tools.settings.protectedTools.includes(metadata.tool) ||
+                isProtected(filePaths, config.protectedFilePatterns) ||
+                mustKeep(state, id)
+            ) {
+                throw new Error(`Invalid ID: ${args.id}. The output is protected or pinned.`)
+            }
+
+            const output = findToolOutput(state, messages, id)
+            if (output === undefined) {
+                throw new Error(`Output ${args.id} has no completed text output to trim.`)
+            }
+
+            const lines = output.split("\n")
+            const lineCount = lines.length
+            const ranges = mergeTrimRanges([
+                ...parseTrimRanges(args.ranges ?? [], lines),
+                ...matchTrimRanges(lines, args.pattern, args.context ?? 0),
+            ])
+            const keptLines = ranges.reduce((sum, [start, end]) => sum + end - start + 1, 0)
+            if (keptLines === 0) {
+                throw new Error("No lines selected. Check the ranges or the pattern.")
+            }
+            if (keptLines >= lineCount) {
+                throw new Error(
+                    `The selection keeps all ${lineCount} lines of the output. Nothing to trim.`,
+                )
+            }
+
+            const previousRanges = state.prune.trimmedToolIds.get(id)
+            const tokensBefore = countTokens(
+                previousRanges ? renderTrimmedOutput(output, previousRanges) : output,
+            )
+            const tokensSaved = tokensBefore - countTokens(renderTrimmedOutput(output, ranges))
+
+            // Ranges refer to the original output, so trimming replaces any extract or truncation
+            state.prune.trimmedToolIds.set(id, ranges)
+            state.prune.extractedToolIds.delete(id)
+            state.prune.truncatedToolIds.delete(id)
+
+            // Widening an earlier trim brings tokens back
+            if (tokensSaved < 0) {
+                state.stats.totalPruneTokens = Math.max(
+                    0,
+                    state.stats.totalPruneTokens + tokensSaved,
+                )
+            } else {
+                state.stats.pruneTokenCounter += tokensSaved
+            }
+
+            const toolMetadata = new Map<string, ToolParameterEntry>([[id, metadata]])
+            const currentParams = getCurrentParams(state, messages, logger)
+            await sendUnifiedNotification(
+                client,
+                logger,
+                config,
+                state,
+                sessionId,
+                [id],
+                toolMetadata,
+                "trim",
+                currentParams,
+                workingDirectory,
+            )
+
+            state.stats.totalPruneTokens += state.stats.pruneTokenCounter
+            state.stats.pruneTokenCounter = 0
+            state.nudgeCounter = 0
+
+            saveSessionState(state, logger).catch((err) =>
+                logger.error("Failed to persist state", { error: err.message }),
+            )
+
+            const rangeList = ranges
+                .map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`))
+                .join(", ")
+            return `Trimmed output ${index} (${metadata.tool}) to ${keptLines} of ${lineCount} output lines (${rangeList}). ~${formatTokenCount(Math.max(0, tokensSaved))} saved. The kept lines stay verbatim with their line numbers.`
+        },
+    })
+}
+
+function findToolOutput(
+    state: SessionState,
+    messages: WithParts[],
+    callId: string,
+): string | undefined {
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) {
+            continue
+        }
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || part.callID !== callId) {
+                continue
+            }
+            if (part.state.status === "completed" && typeof part.state.output === "string") {
+                return part.state.output
+            }
+            return undefined
+        }
+    }
+    return undefined
+}
@@ -0,0 +1,67 @@
+import { tool } from "@opencode-ai/plugin"
+import type { WithParts } from "../state"
+import type { PruneToolContext } from "./types"
+import { ensureSessionInitialized } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { rollbackCompressOperation } from "../state/utils"
+import { loadPrompt } from "../prompts"
+import { getCurrentParams } from "../strategies/utils"
+import { sendUncompressNotification } from "../ui/notification"
+
+const UNCOMPRESS_TOOL_DESCRIPTION = loadPrompt("uncompress-tool-spec")
+
+export function createUncompressTool(ctx: PruneToolContext): ReturnType<typeof tool> {
+    return tool({
+        description: UNCOMPRESS_TOOL_DESCRIPTION,
+        args: {
+            operationId: tool.schema
+                .string()
+                .describe("Numeric ID (as a string) of the compress operation to roll back"),
+        },
+        async execute(args, toolCtx) {
+            const { client, state, logger, config } = ctx
+            const sessionId = toolCtx.sessionID
+
+            logger.info("Uncompress tool invoked")
+            logger.info(JSON.stringify({ operationId: args.operationId }))
+
+            const operationId = parseInt(String(args.operationId).replace(/^#/, ""), 10)
+            if (isNaN(operationId)) {
+                logger.debug("Uncompress tool called without operation ID: " + JSON.stringify(args))
+                throw new Error(
+                    "Missing operationId. Provide the numeric ID of a compress operation.",
+                )
+            }
+
+            const messagesResponse = await client.session.messages({
+                path: { id: sessionId },
+            })
+            const messages: WithParts[] = messagesResponse.data || messagesResponse
+
+            await ensureSessionInitialized(client, state, sessionId, logger, messages)
+
+            const operation = rollbackCompressOperation(state, operationId)
+
+            const currentParams = getCurrentParams(state, messages, logger)
+            await sendUncompressNotification(
+                client,
+                logger,
+                config,
+                state,
+                sessionId,
+                operation,
+                currentParams,
+            )
+
+            saveSessionState(state, logger).catch((err) =>
+                logger.error("Failed to persist state", { error: err.message }),
+            )
+
+            const putBack =
+                operation.absorbedAnchorIds.length > 0
+                    ? ` The ${operation.absorbedAnchorIds.length} summaries it rolled up are back in its place.`
+                    : ""
+            return `Uncompressed operation #${operation.id} (${operation.topic}). ${operation.messageIds.length} messages and ${operation.toolIds.length} tool calls are back in context.${putBack}`
+        },
+    })
+}
@@ -1,6 +1,7 @@
 import { partial_ratio } from "fuzzball"
-import type { WithParts, CompressSummary } from "../state"
+import type { WithParts, CompressSummary, SessionState, TrimRange } from "../state"
 import type { Logger } from "../logger"
+import { getOwnLineNumbers } from "../strategies/utils"
 
 export interface FuzzyConfig {
     minScore: number
@@ -247,6 +248,110 @@ export function findStringInMessages(
     return { messageId: best.messageId, messageIndex: best.messageIndex }
 }
 
+export interface CompressBoundaries {
+    startId?: string
+    endId?: string
+    startString?: string
+    endString?: string
+}
+
+interface RangeBoundary {
+    messageId: string
+    messageIndex: number
+}
+
+/**
+ * Checks that a compress range is given either by message IDs or by text
+ * boundaries. IDs win when both are given.
+ */
+export function validateCompressBoundaries(boundaries: CompressBoundaries): void {
+    const { startId, endId, startString, endString } = boundaries
+    if (startId !== undefined || endId !== undefined) {
+        if (!startId || typeof startId !== "string") {
+            throw new Error("content.startId is required when content.endId is given")
+        }
+        if (!endId || typeof endId !== "string") {
+            throw new Error("content.endId is required when content.startId is given")
+        }
+        return
+    }
+
+    if (!startString || typeof startString !== "string") {
+        throw new Error("content.startId/endId or content.startString/endString are required")
+    }
+    if (!endString || typeof endString !== "string") {
+        throw new Error("content.endString is required and must be a non-empty string")
+    }
+}
+
+/**
+ * Resolves the first and last message of a compress range, addressed by
+ * message IDs from <compress-context> or, as a fallback, by text boundaries.
+ * Expects `state.messageBlocks` to be built from the same messages.
+ */
+export function findCompressRange(
+    state: SessionState,
+    messages: WithParts[],
+    boundaries: CompressBoundaries,
+    logger: Logger,
+): { startResult: RangeBoundary; endResult: RangeBoundary } {
+    const { startId, endId, startString, endString } = boundaries
+    const useIds = startId !== undefined || endId !== undefined
+
+    const startResult = useIds
+        ? findMessageBlock(state, messages, startId ?? "", "startId")
+        : findStringInMessages(
+              messages,
+              startString ?? "",
+              logger,
+              state.compressSummaries,
+              "startString",
+          )
+    const endResult = useIds
+        ? findMessageBlock(state, messages, endId ?? "", "endId")
+        : findStringInMessages(
+              messages,
+              endString ?? "",
+              logger,
+              state.compressSummaries,
+              "endString",
+          )
+
+    if (startResult.messageIndex > endResult.messageIndex) {
+        const [startName, endName] = useIds ? ["startId", "endId"] : ["startString", "endString"]
+        throw new Error(
+            `${startName} appears after ${endName} in the conversation. Start must come before end.`,
+        )
+    }
+
+    return { startResult, endResult }
+}
+
+function findMessageBlock(
+    state: SessionState,
+    messages: WithParts[],
+    id: string,
+    idType: "startId" | "endId",
+): RangeBoundary {
+    const blockIndex = parseInt(id, 10)
+    const block = isNaN(blockIndex) ? undefined : state.messageBlocks[blockIndex]
+    if (!block) {
+        throw new Error(
+            `${idType} "${id}" is not a message ID. Use a numeric ID from the <compress-context> list.`,
+        )
+    }
+
+    const messageIndex = messages.findIndex((msg) => msg.info.id === block.messageId)
+    if (messageIndex === -1) {
+        throw new Error(`${idType} "${id}" no longer refers to a message in the conversation.`)
+    }
+    if (messages[messageIndex].info.time.created < state.lastCompaction) {
+        throw new Error(`${idType} "${id}" refers to a message removed by compaction.`)
+    }
+
+    return { messageId: block.messageId, messageIndex }
+}
+
 export function collectToolIdsInRange(
     messages: WithParts[],
     startIndex: number,
@@ -291,10 +396,14 @@ export function collectContentInRange(
     messages: WithParts[],
     startIndex: number,
     endIndex: number,
+    skipMessageIds: Set<string> = new Set(),
 ): string[] {
     const contents: string[] = []
     for (let i = startIndex; i <= endIndex; i++) {
         const msg = messages[i]
+        if (skipMessageIds.has(msg.info.id)) {
+            continue
+        }
         const parts = Array.isArray(msg.parts) ? msg.parts : []
         for (const part of parts) {
             if (part.type === "text") {
@@ -326,3 +435,87 @@ export function collectContentInRange(
     }
     return contents
 }
+
+/**
+ * Resolves the line ranges given to the trim tool to ranges of output lines.
+ * For outputs that number their own lines, like read, ranges refer to those
+ * numbers; otherwise they count output lines from 1.
+ */
+export function parseTrimRanges(specs: string[], lines: string[]): TrimRange[] {
+    const ownNumbers = getOwnLineNumbers(lines)
+    const ranges: TrimRange[] = []
+    for (const spec of specs) {
+        const match = spec.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+        if (!match) {
+            throw new Error(`Invalid range "${spec}". Use "start-end" or a single line number.`)
+        }
+        const start = parseInt(match[1], 10)
+        const end = match[2] !== undefined ? parseInt(match[2], 10) : start
+        if (start < 1 || end < start) {
+            throw new Error(`Invalid range "${spec}". Lines start at 1 and end must be >= start.`)
+        }
+
+        if (!ownNumbers) {
+            if (start > lines.length) {
+                throw new Error(
+                    `Range "${spec}" is past the end of the output (${lines.length} lines).`,
+                )
+            }
+            ranges.push([start, Math.min(end, lines.length)])
+            continue
+        }
+
+        const selected: TrimRange[] = []
+        ownNumbers.forEach((number, i) => {
+            if (number !== undefined && number >= start && number <= end) {
+                selected.push([i + 1, i + 1])
+            }
+        })
+        if (selected.length === 0) {
+            throw new Error(`Range "${spec}" matches no numbered line of the output.`)
+        }
+        ranges.push(...selected)
+    }
+    return ranges
+}
+
+/** Ranges of the output lines matching a pattern, with context lines around each */
+export function matchTrimRanges(
+    lines: string[],
+    pattern: string | undefined,
+    context: number,
+): TrimRange[] {
+    if (!pattern) {
+        return []
+    }
+    let regex: RegExp
+    try {
+        regex = new RegExp(pattern)
+    } catch (error: any) {
+        throw new Error(`Invalid pattern: ${error.message}`)
+    }
+
+    const around = Math.max(0, Math.floor(context))
+    const ranges: TrimRange[] = []
+    lines.forEach((line, i) => {
+        if (regex.test(line)) {
+            ranges.push([Math.max(1, i + 1 - around), Math.min(lines.length, i + 1 + around)])
+        }
+    })
+    return ranges
+}
+
+/** Sorts ranges and joins overlapping or adjacent ones */
+export function mergeTrimRanges(ranges: TrimRange[]): TrimRange[] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+    const merged: TrimRange[] = []
+    for (const [start, end] of sorted) {
+        const last = merged[merged.length - 1]
+        if (last && start <= last[1] + 1) {
+            last[1] = Math.max(last[1], end)
+        } else {
+            merged.push([start, end])
+        }
+    }
+    return merged
+}
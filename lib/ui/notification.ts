@@ -1,5 +1,5 @@
 import type { Logger } from "../logger"
-import type { SessionState } from "../state"
+import type { CompressOperation, PruneReason, SessionState } from "../state"
 import {
     countDistillationTokens,
     formatExtracted,
@@ -11,23 +11,50 @@ import {
 import { ToolParameterEntry } from "../state"
 import { PluginConfig } from "../config"
 
-export type PruneReason = "completion" | "noise" | "extraction"
+export type { PruneReason }
 export const PRUNE_REASON_LABELS: Record<PruneReason, string> = {
     completion: "Task Complete",
     noise: "Noise Removal",
+    superseded: "Superseded",
+    "wrong-target": "Wrong Target",
     extraction: "Extraction",
+    budget: "Context Budget",
+    retry: "Retry Collapse",
+    trim: "Trimmed",
+}
+
+// Tool call IDs by reason, when the pruned outputs do not all share one reason
+function groupByReason(
+    pruneToolIds: string[],
+    reasonsById: Map<string, PruneReason> | undefined,
+): Map<PruneReason, string[]> | undefined {
+    if (!reasonsById) {
+        return undefined
+    }
+    const groups = new Map<PruneReason, string[]>()
+    for (const id of pruneToolIds) {
+        const reason = reasonsById.get(id)
+        if (reason) {
+            groups.set(reason, [...(groups.get(reason) ?? []), id])
+        }
+    }
+    return groups.size > 1 ? groups : undefined
 }
 
 function buildMinimalMessage(
     state: SessionState,
     reason: PruneReason | undefined,
+    reasonGroups: Map<PruneReason, string[]> | undefined,
     distillation: string[] | undefined,
     showDistillation: boolean,
 ): string {
     const extractedTokens = countDistillationTokens(distillation)
     const extractedSuffix =
         extractedTokens > 0 ? ` (distilled ${formatTokenCount(extractedTokens)})` : ""
-    const reasonSuffix = reason && extractedTokens === 0 ? ` — ${PRUNE_REASON_LABELS[reason]}` : ""
+    const reasonLabels = reasonGroups
+        ? [...reasonGroups.keys()].map((r) => PRUNE_REASON_LABELS[r]).join(", ")
+        : reason && PRUNE_REASON_LABELS[reason]
+    const reasonSuffix = reasonLabels && extractedTokens === 0 ? ` — ${reasonLabels}` : ""
     let message =
         formatStatsHeader(state.stats.totalPruneTokens, state.stats.pruneTokenCounter) +
         reasonSuffix +
@@ -39,6 +66,7 @@ function buildMinimalMessage(
 function buildDetailedMessage(
     state: SessionState,
     reason: PruneReason | undefined,
+    reasonGroups: Map<PruneReason, string[]> | undefined,
     pruneToolIds: string[],
     toolMetadata: Map<string, ToolParameterEntry>,
     workingDirectory: string,
@@ -53,11 +81,20 @@ function buildDetailedMessage(
         const extractedSuffix =
             extractedTokens > 0 ? `, distilled ${formatTokenCount(extractedTokens)}` : ""
         const reasonLabel =
-            reason && extractedTokens === 0 ? ` — ${PRUNE_REASON_LABELS[reason]}` : ""
+            reason && !reasonGroups && extractedTokens === 0
+                ? ` — ${PRUNE_REASON_LABELS[reason]}`
+                : ""
         message += `\n\n▣ Pruning (${pruneTokenCounterStr}${extractedSuffix})${reasonLabel}`
 
-        const itemLines = formatPrunedItemsList(pruneToolIds, toolMetadata, workingDirectory)
-        message += "\n" + itemLines.join("\n")
+        if (reasonGroups) {
+            for (const [groupReason, ids] of reasonGroups) {
+                const itemLines = formatPrunedItemsList(ids, toolMetadata, workingDirectory)
+                message += `\n${PRUNE_REASON_LABELS[groupReason]}:\n` + itemLines.join("\n")
+            }
+        } else {
+            const itemLines = formatPrunedItemsList(pruneToolIds, toolMetadata, workingDirectory)
+            message += "\n" + itemLines.join("\n")
+        }
     }
 
     return (message + formatExtracted(showDistillation ? distillation : undefined)).trim()
@@ -111,6 +148,8 @@ export async function sendUnifiedNotification(
     params: any,
     workingDirectory: string,
     distillation?: string[],
+    // Tool call ID -> reason, when the reason differs per pruned output
+    reasonsById?: Map<string, PruneReason>,
 ): Promise<boolean> {
     const hasPruned = pruneToolIds.length > 0
     if (!hasPruned) {
@@ -122,13 +161,18 @@ export async function sendUnifiedNotification(
     }
 
     const showDistillation = config.tools.distill.showDistillation
+    const reasonGroups = groupByReason(pruneToolIds, reasonsById)
+    // A single reason shared by all outputs is shown like a plain reason
+    const sharedReason =
+        reasonsById && !reasonGroups ? (reasonsById.get(pruneToolIds[0]) ?? reason) : reason
 
     const message =
         config.pruneNotification === "minimal"
-            ? buildMinimalMessage(state, reason, distillation, showDistillation)
+            ? buildMinimalMessage(state, sharedReason, reasonGroups, distillation, showDistillation)
             : buildDetailedMessage(
                   state,
-                  reason,
+                  sharedReason,
+                  reasonGroups,
                   pruneToolIds,
                   toolMetadata,
                   workingDirectory,
@@ -156,6 +200,55 @@ export async function sendUnifiedNotification(
     return true
 }
 
+export async function sendRestoreNotification(
+    client: any,
+    logger: Logger,
+    config: PluginConfig,
+    state: SessionState,
+    sessionId: string,
+    restoreToolIds: string[],
+    toolMetadata: Map<string, ToolParameterEntry>,
+    tokensRestored: number,
+    params: any,
+    workingDirectory: string,
+): Promise<boolean> {
+    if (restoreToolIds.length === 0) {
+        return false
+    }
+
+    if (config.pruneNotification === "off") {
+        return false
+    }
+
+    const restoredStr = `~${formatTokenCount(tokensRestored)}`
+    let message = formatStatsHeader(state.stats.totalPruneTokens, 0)
+    if (config.pruneNotification === "minimal") {
+        message += ` — Restored ${restoredStr}`
+    } else {
+        message += `\n\n▣ Restoring (${restoredStr})`
+        const itemLines = formatPrunedItemsList(restoreToolIds, toolMetadata, workingDirectory)
+        message += "\n" + itemLines.join("\n")
+    }
+
+    if (config.pruneNotificationType === "toast") {
+        const toastMessage =
+            config.pruneNotification === "minimal" ? message : truncateToastBody(message)
+
+        await client.tui.showToast({
+            body: {
+                title: "DCP: Restore Notification",
+                message: toastMessage,
+                variant: "info",
+                duration: 5000,
+            },
+        })
+        return true
+    }
+
+    await sendIgnoredMessage(client, sessionId, message, params, logger)
+    return true
+}
+
 export async function sendCompressNotification(
     client: any,
     logger: Logger,
@@ -231,6 +324,53 @@ export async function sendCompressNotification(
     return true
 }
 
+export async function sendUncompressNotification(
+    client: any,
+    logger: Logger,
+    config: PluginConfig,
+    state: SessionState,
+    sessionId: string,
+    operation: CompressOperation,
+    params: any,
+): Promise<boolean> {
+    if (config.pruneNotification === "off") {
+        return false
+    }
+
+    const restoredStr = `~${formatTokenCount(operation.tokens)}`
+    let message = formatStatsHeader(state.stats.totalPruneTokens, 0)
+    if (config.pruneNotification === "minimal") {
+        message += ` — Uncompressed ${restoredStr}`
+    } else {
+        message += `\n\n▣ Uncompressing #${operation.id} (${restoredStr})`
+        message += `\n→ Topic: ${operation.topic}`
+        message += `\n→ Items: ${operation.messageIds.length} messages`
+        if (operation.toolIds.length > 0) {
+            message += ` and ${operation.toolIds.length} tools restored`
+        } else {
+            message += ` restored`
+        }
+        if (operation.absorbedAnchorIds.length > 0) {
+            message += `\n→ Summaries put back: ${operation.absorbedAnchorIds.length}`
+        }
+    }
+
+    if (config.pruneNotificationType === "toast") {
+        await client.tui.showToast({
+            body: {
+                title: "DCP: Uncompress Notification",
+                message: message,
+                variant: "info",
+                duration: 5000,
+            },
+        })
+        return true
+    }
+
+    await sendIgnoredMessage(client, sessionId, message, params, logger)
+    return true
+}
+
 export async function sendIgnoredMessage(
     client: any,
     sessionID: string,
@@ -30,6 +30,22 @@ export function formatTokenCount(tokens: number): string {
     return tokens.toString() + " tokens"
 }
 
+export function formatUsd(amount: number): string {
+    const sign = amount < 0 ? "-" : ""
+    const abs = Math.abs(amount)
+    return `${sign}$${abs >= 1 ? abs.toFixed(2) : abs.toFixed(4)}`
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    }
+    if (bytes >= 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`
+    }
+    return `${bytes} B`
+}
+
 export function truncate(str: string, maxLen: number = 60): string {
     if (str.length <= maxLen) return str
     return str.slice(0, maxLen - 3) + "..."
@@ -131,3 +147,17 @@ export function formatPruningResultForTool(
 
     return lines.join("\n").trim()
 }
+
+export function formatRestoreResultForTool(
+    restoredIds: string[],
+    toolMetadata: Map<string, ToolParameterEntry>,
+    workingDirectory?: string,
+): string {
+    const lines: string[] = []
+    lines.push(
+        `Restore complete. Restored ${restoredIds.length} tool outputs, their original content is back in context.`,
+    )
+    lines.push("")
+    lines.push(...formatPrunedItemsList(restoredIds, toolMetadata, workingDirectory))
+    return lines.join("\n").trim()
+}
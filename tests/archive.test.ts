@@ -0,0 +1,62 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { searchArchive, type ArchiveEntry } from "../lib/state/archive"
+
+const entry = (key: string, turn: number, text: string, tool = "bash"): ArchiveEntry => ({
+    key,
+    tool,
+    turn,
+    reason: "prune",
+    text,
+    archivedAt: "2026-01-01T00:00:00.000Z",
+})
+
+test("searchArchive requires every term to match", () => {
+    const entries = [
+        entry("a", 1, "npm install failed with ENOENT"),
+        entry("b", 2, "npm test passed"),
+    ]
+
+    const matches = searchArchive(entries, "npm ENOENT", 10)
+
+    assert.deepEqual(
+        matches.map((m) => m.entry.key),
+        ["a"],
+    )
+})
+
+test("searchArchive matches tool names case-insensitively", () => {
+    const entries = [entry("a", 1, "contents", "read"), entry("b", 2, "contents", "grep")]
+
+    assert.deepEqual(
+        searchArchive(entries, "GREP", 10).map((m) => m.entry.key),
+        ["b"],
+    )
+})
+
+test("searchArchive ranks by occurrences, then by most recent turn", () => {
+    const entries = [
+        entry("once-old", 1, "timeout"),
+        entry("twice", 2, "timeout\ntimeout again"),
+        entry("once-new", 3, "timeout"),
+    ]
+
+    assert.deepEqual(
+        searchArchive(entries, "timeout", 10).map((m) => m.entry.key),
+        ["twice", "once-new", "once-old"],
+    )
+    assert.equal(searchArchive(entries, "timeout", 1).length, 1)
+})
+
+test("searchArchive uses the latest entry for a key", () => {
+    const entries = [entry("a", 1, "old output"), entry("a", 4, "new output")]
+
+    assert.deepEqual(searchArchive(entries, "old", 10), [])
+    const matches = searchArchive(entries, "output", 10)
+    assert.equal(matches.length, 1)
+    assert.equal(matches[0].entry.turn, 4)
+})
+
+test("searchArchive returns nothing for a blank query", () => {
+    assert.deepEqual(searchArchive([entry("a", 1, "text")], "   ", 10), [])
+})
@@ -0,0 +1,40 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { pruneAttachments } from "../lib/strategies/attachments"
+import {
+    assistantMessage,
+    createTestConfig,
+    filePart,
+    loadSession,
+    logger,
+    userMessage,
+} from "./fixtures"
+
+const png = "data:image/png;base64," + "iVBORw0KGgo".repeat(100)
+
+test("pruneAttachments replaces attachments older than the turn threshold", () => {
+    const config = createTestConfig()
+    config.strategies.attachments.enabled = true
+    const messages = [
+        userMessage("msg_u1", "The button is misaligned, see the screenshot", [
+            filePart("att_old", "before.png", "image/png", png),
+            // Text files are inlined by OpenCode, not sent as attachments
+            filePart("att_text", "styles.css", "text/css", "file:///project/styles.css"),
+        ]),
+        assistantMessage("msg_a1", []),
+        assistantMessage("msg_a2", []),
+        assistantMessage("msg_a3", []),
+        assistantMessage("msg_a4", []),
+        userMessage("msg_u2", "Still off by a few pixels", [
+            filePart("att_new", "after.png", "image/png", png),
+        ]),
+        assistantMessage("msg_a5", []),
+    ]
+    const state = loadSession(config, messages)
+    assert.deepEqual([...state.attachments.keys()], ["att_old", "att_new"])
+
+    pruneAttachments(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.attachmentPartIds], ["att_old"])
+    assert.equal(state.stats.totalPruneTokens, state.attachments.get("att_old")?.tokenCount)
+})
@@ -0,0 +1,128 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import type { AssistantMessage } from "@opencode-ai/sdk/v2"
+import type { PluginConfig } from "../lib/config"
+import type { SessionState, WithParts } from "../lib/state"
+import { createPruneCheckpoint, schedulePrunes } from "../lib/strategies/cache-scheduler"
+import { diskChanges } from "../lib/strategies/disk-changes"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+function createWarmSession(workingDirectory?: string): {
+    config: PluginConfig
+    state: SessionState
+    messages: WithParts[]
+} {
+    const config = createTestConfig()
+    config.cacheScheduler.enabled = true
+    config.strategies.diskChanges.enabled = workingDirectory !== undefined
+    const last = assistantMessage("msg_a2", [], {
+        input: 200,
+        output: 100,
+        cache: { read: 20_000, write: 0 },
+    })
+    const messages = [
+        userMessage("msg_u1", "Show the logs"),
+        assistantMessage("msg_a1", [
+            toolPart("b1", "bash", { command: "cat a.log" }, lines(50)),
+            toolPart("b2", "bash", { command: "cat b.log" }, lines(50)),
+            toolPart("r1", "read", { filePath: "notes.md" }, "1| draft"),
+        ]),
+        last,
+    ]
+    // The last response just came back, so its cached prefix is still warm
+    const lastInfo = last.info as AssistantMessage
+    lastInfo.time.completed = Date.now()
+
+    const state = loadSession(config, messages, workingDirectory)
+    state.prune.toolIds.add("b1")
+    state.stats.totalPruneTokens = 300
+    // The history was last rendered with b1 pruned
+    schedulePrunes(state, logger, config, messages, createPruneCheckpoint(state))
+    return { config, state, messages }
+}
+
+test("schedulePrunes holds back small savings while the cache is warm", () => {
+    const { config, state, messages } = createWarmSession()
+    const checkpoint = createPruneCheckpoint(state)
+
+    state.prune.toolIds.add("b2")
+    state.stats.totalPruneTokens += 300
+    schedulePrunes(state, logger, config, messages, checkpoint)
+
+    assert.deepEqual([...state.prune.toolIds], ["b1"])
+    assert.equal(state.stats.totalPruneTokens, 300)
+})
+
+test("schedulePrunes applies a batch once it reaches the threshold", () => {
+    const { config, state, messages } = createWarmSession()
+    const checkpoint = createPruneCheckpoint(state)
+
+    state.prune.toolIds.add("b2")
+    state.stats.totalPruneTokens += config.cacheScheduler.batchThreshold
+    schedulePrunes(state, logger, config, messages, checkpoint)
+
+    assert.deepEqual([...state.prune.toolIds].sort(), ["b1", "b2"])
+    assert.equal(state.stats.pruneBatches, 1)
+})
+
+test("schedulePrunes applies changes that save no tokens right away", () => {
+    const { config, state, messages } = createWarmSession()
+    const checkpoint = createPruneCheckpoint(state)
+
+    // A strategy un-prunes b1
+    state.prune.toolIds.delete("b1")
+    schedulePrunes(state, logger, config, messages, checkpoint)
+
+    assert.deepEqual([...state.prune.toolIds], [])
+    assert.equal(state.cacheScheduler.awaitingCacheCheck, true)
+})
+
+test("schedulePrunes applies changed on disk annotations right away", () => {
+    const dir = mkdtempSync(join(tmpdir(), "dcp-scheduler-"))
+    try {
+        const past = new Date("2020-01-01T00:00:00Z")
+        writeFileSync(join(dir, "notes.md"), "draft\n")
+        utimesSync(join(dir, "notes.md"), past, past)
+        const { config, state, messages } = createWarmSession(dir)
+        const checkpoint = createPruneCheckpoint(state)
+
+        writeFileSync(join(dir, "notes.md"), "final\n")
+        diskChanges(state, logger, config, messages)
+        schedulePrunes(state, logger, config, messages, checkpoint)
+
+        assert.deepEqual([...state.prune.changedOnDiskToolIds], ["r1"])
+        assert.equal(state.cacheScheduler.awaitingCacheCheck, true)
+    } finally {
+        rmSync(dir, { recursive: true, force: true })
+    }
+})
+
+test("schedulePrunes lets the cost model hold back prunes without the scheduler", () => {
+    const { config, state, messages } = createWarmSession()
+    config.cacheScheduler.enabled = false
+    config.pricing.enabled = true
+    config.pricing.models["anthropic/claude-sonnet-4"] = {
+        input: 3,
+        cacheRead: 0.3,
+        cacheWrite: 3.75,
+    }
+    const checkpoint = createPruneCheckpoint(state)
+
+    // 300 tokens save far less over 10 requests than rewriting 20k cached tokens costs
+    state.prune.toolIds.add("b2")
+    state.stats.totalPruneTokens += 300
+    schedulePrunes(state, logger, config, messages, checkpoint)
+
+    assert.deepEqual([...state.prune.toolIds], ["b1"])
+})
@@ -0,0 +1,79 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { createSessionState, type CompressOperation, type SessionState } from "../lib/state"
+import { rollbackCompressOperation } from "../lib/state/utils"
+
+const operation = (
+    id: number,
+    anchorMessageId: string,
+    messageIds: string[],
+    toolIds: string[],
+    tokens: number,
+): CompressOperation => ({
+    id,
+    topic: `topic ${id}`,
+    anchorMessageId,
+    messageIds,
+    toolIds,
+    absorbedAnchorIds: [],
+    tokens,
+    createdTurn: id,
+})
+
+// Operation 1 compressed m1-m2, then operation 2 compressed m3 and rolled up 1
+function createCompressedState(): SessionState {
+    const state = createSessionState()
+    state.compressOperations = [
+        operation(1, "m1", ["m1", "m2"], ["t1"], 300),
+        { ...operation(2, "m1", ["m3"], ["t2"], 200), absorbedAnchorIds: ["m1"] },
+    ]
+    state.compressSummaries = [
+        {
+            anchorMessageId: "m1",
+            summary: "outer",
+            operationId: 2,
+            children: [{ anchorMessageId: "m1", summary: "inner", operationId: 1 }],
+        },
+    ]
+    for (const id of ["m1", "m2", "m3"]) {
+        state.prune.messageIds.add(id)
+    }
+    state.prune.toolIds.add("t1")
+    state.prune.toolIds.add("t2")
+    state.stats.totalPruneTokens = 500
+    return state
+}
+
+test("rollbackCompressOperation restores rolled up summaries and un-prunes its content", () => {
+    const state = createCompressedState()
+
+    const rolledBack = rollbackCompressOperation(state, 2)
+
+    assert.equal(rolledBack.id, 2)
+    assert.deepEqual(
+        state.compressSummaries.map((s) => s.summary),
+        ["inner"],
+    )
+    assert.deepEqual([...state.prune.messageIds].sort(), ["m1", "m2"])
+    assert.deepEqual([...state.prune.toolIds], ["t1"])
+    assert.deepEqual(
+        state.compressOperations.map((op) => op.id),
+        [1],
+    )
+    assert.equal(state.stats.totalPruneTokens, 300)
+    assert.equal(state.cacheScheduler.flushRequested, true)
+})
+
+test("rollbackCompressOperation refuses an operation that was rolled up", () => {
+    const state = createCompressedState()
+
+    assert.throws(() => rollbackCompressOperation(state, 1), /was rolled up by #2/)
+    assert.equal(state.compressSummaries.length, 1)
+    assert.equal(state.prune.messageIds.size, 3)
+})
+
+test("rollbackCompressOperation rejects unknown operations", () => {
+    const state = createCompressedState()
+
+    assert.throws(() => rollbackCompressOperation(state, 9), /No compress operation #9/)
+})
@@ -0,0 +1,23 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { ModelPricing, PluginConfig } from "../lib/config"
+import { isPruneWorthCacheBreak } from "../lib/cost-model"
+
+const config = {
+    pricing: { enabled: true, breakEvenRequests: 10, models: {} },
+} as unknown as PluginConfig
+
+const pricing: ModelPricing = { input: 3, cacheRead: 0.3, cacheWrite: 3.75 }
+
+test("isPruneWorthCacheBreak weighs savings over breakEvenRequests against the rewrite", () => {
+    // Rewriting 100k cached tokens costs 100k * (3.75 - 0.3) / 1M = $0.345,
+    // and each pruned cached token saves $0.3 / 1M per request
+    assert.equal(isPruneWorthCacheBreak(config, pricing, 200_000, 100_000), true)
+    assert.equal(isPruneWorthCacheBreak(config, pricing, 50_000, 100_000), false)
+})
+
+test("isPruneWorthCacheBreak allows pruning when breaking the cache costs nothing", () => {
+    assert.equal(isPruneWorthCacheBreak(config, pricing, 1, 0), true)
+    assert.equal(isPruneWorthCacheBreak(config, { perRequest: true }, 1, 100_000), true)
+    assert.equal(isPruneWorthCacheBreak(config, { input: 3 }, 1, 100_000), true)
+})
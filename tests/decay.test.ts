@@ -0,0 +1,93 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { decay } from "../lib/strategies/decay"
+import { truncateHeadTail } from "../lib/strategies/utils"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("truncateHeadTail keeps the first and last lines around a marker", () => {
+    const result = truncateHeadTail(lines(10), 4)
+
+    assert.deepEqual(result.split("\n"), [
+        "line 1",
+        "line 2",
+        "[... 6 lines omitted to save context ...]",
+        "line 9",
+        "line 10",
+    ])
+})
+
+test("truncateHeadTail favours the head when keepLines is odd", () => {
+    const result = truncateHeadTail(lines(10), 3)
+
+    assert.deepEqual(result.split("\n"), [
+        "line 1",
+        "line 2",
+        "[... 7 lines omitted to save context ...]",
+        "line 10",
+    ])
+})
+
+test("truncateHeadTail leaves short text unchanged", () => {
+    const text = lines(4)
+    assert.equal(truncateHeadTail(text, 4), text)
+    assert.equal(truncateHeadTail(text, 10), text)
+})
+
+function createDecayConfig() {
+    const config = createTestConfig()
+    config.strategies.decay = {
+        enabled: true,
+        truncateTurns: 2,
+        truncateLines: 10,
+        pruneTurns: 4,
+        protectedTools: [],
+    }
+    return config
+}
+
+// Five turns: outputs from turn 1 are 4 turns old, those from turn 2 are 3 turns old
+const messages = [
+    userMessage("msg_u1", "Investigate the failing build"),
+    assistantMessage("msg_a1", [
+        toolPart("old", "bash", { command: "npm run build" }, lines(100)),
+        toolPart("edit", "edit", { filePath: "src/a.ts", oldString: "a", newString: "b" }, "ok"),
+    ]),
+    assistantMessage("msg_a2", [
+        toolPart("mid", "bash", { command: "npm test" }, lines(100)),
+        toolPart("short", "bash", { command: "git status" }, lines(5)),
+    ]),
+    assistantMessage("msg_a3", []),
+    assistantMessage("msg_a4", []),
+    assistantMessage("msg_a5", [toolPart("new", "bash", { command: "ls" }, lines(100))]),
+]
+
+test("decay truncates aging outputs and prunes old ones", () => {
+    const config = createDecayConfig()
+    const state = loadSession(config, messages)
+
+    decay(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.toolIds], ["old"])
+    assert.deepEqual([...state.prune.truncatedToolIds], [["mid", 10]])
+    assert.ok(state.stats.totalPruneTokens > 0)
+})
+
+test("decay skips file changes, short outputs and pinned outputs", () => {
+    const config = createDecayConfig()
+    const state = loadSession(config, messages)
+    state.pinned.toolIds.add("old")
+
+    decay(state, logger, config, messages)
+
+    assert.equal(state.prune.toolIds.size, 0)
+    assert.ok(!state.prune.truncatedToolIds.has("short"))
+    assert.ok(!state.prune.toolIds.has("edit"))
+})
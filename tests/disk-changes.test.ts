@@ -0,0 +1,115 @@
+import { after, test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { diskChanges } from "../lib/strategies/disk-changes"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+const dir = mkdtempSync(join(tmpdir(), "dcp-disk-changes-"))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+// Written before the reads in the fixtures' clock, so only later writes count
+const past = new Date("2020-01-01T00:00:00Z")
+
+function writeOldFile(name: string, content: string): void {
+    writeFileSync(join(dir, name), content)
+    utimesSync(join(dir, name), past, past)
+}
+
+function createConfig() {
+    const config = createTestConfig()
+    config.strategies.diskChanges.enabled = true
+    return config
+}
+
+test("diskChanges annotates reads of files changed outside the conversation", () => {
+    writeOldFile("config.ts", "export const port = 3000\n")
+    const config = createConfig()
+    const messages = [
+        userMessage("msg_u1", "Which port does the server use?"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "config.ts" }, "1| export const port = 3000"),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart("r2", "read", { filePath: "notes.md" }, "Error: file not found"),
+        ]),
+    ]
+    const state = loadSession(config, messages, dir)
+
+    // The user switches branches between requests
+    writeFileSync(join(dir, "config.ts"), "export const port = 8080\n")
+    diskChanges(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.changedOnDiskToolIds], ["r1"])
+    assert.deepEqual([...state.prune.toolIds], [])
+    assert.equal(state.cacheScheduler.flushRequested, true)
+})
+
+test("diskChanges leaves reads followed by an edit in the conversation to staleReads", () => {
+    writeOldFile("server.ts", lines(40))
+    const config = createConfig()
+    const messages = [
+        userMessage("msg_u1", "Log the startup time"),
+        assistantMessage("msg_a1", [toolPart("r1", "read", { filePath: "server.ts" }, lines(40))]),
+        assistantMessage("msg_a2", [
+            toolPart(
+                "e1",
+                "edit",
+                { filePath: "server.ts", oldString: "line 1", newString: "start" },
+                "Edit applied successfully.",
+            ),
+        ]),
+    ]
+    const state = loadSession(config, messages, dir)
+
+    writeFileSync(join(dir, "server.ts"), lines(40).replace("line 1", "start"))
+    diskChanges(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.changedOnDiskToolIds], [])
+})
+
+test("diskChanges ignores files that were touched but not changed", () => {
+    writeOldFile("README.md", "# Project\n")
+    const config = createConfig()
+    config.strategies.diskChanges.action = "prune"
+    const messages = [
+        userMessage("msg_u1", "Summarize the readme"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "README.md" }, "1| # Project"),
+        ]),
+    ]
+    const state = loadSession(config, messages, dir)
+
+    const now = new Date()
+    utimesSync(join(dir, "README.md"), now, now)
+    diskChanges(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.toolIds], [])
+})
+
+test("diskChanges compares files too large to hash by mtime and size", () => {
+    writeOldFile("fixture.json", "x".repeat(2 * 1024 * 1024))
+    const config = createConfig()
+    const messages = [
+        userMessage("msg_u1", "Check the fixture"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "fixture.json" }, lines(200)),
+        ]),
+    ]
+    const state = loadSession(config, messages, dir)
+    assert.equal(state.fileSnapshots.get("r1")?.hash, undefined)
+
+    writeFileSync(join(dir, "fixture.json"), "y".repeat(2 * 1024 * 1024))
+    diskChanges(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.changedOnDiskToolIds], ["r1"])
+})
@@ -0,0 +1,134 @@
+import { getDefaultConfig, type PluginConfig } from "../lib/config"
+import { Logger } from "../lib/logger"
+import { createSessionState, type SessionState, type WithParts } from "../lib/state"
+import { syncAttachmentCache } from "../lib/state/attachment-cache"
+import { syncToolCache } from "../lib/state/tool-cache"
+import { countTurns } from "../lib/state/utils"
+import { buildToolIdList } from "../lib/messages/utils"
+
+export const logger = new Logger(false)
+
+// Message timestamps only need to increase in conversation order
+let clock = 1_700_000_000_000
+
+function nextTime(): number {
+    clock += 1000
+    return clock
+}
+
+export function createTestConfig(): PluginConfig {
+    return getDefaultConfig()
+}
+
+export function userMessage(id: string, text: string, extraParts: any[] = []): WithParts {
+    return {
+        info: {
+            id,
+            sessionID: "ses_test",
+            role: "user",
+            time: { created: nextTime() },
+            agent: "build",
+            model: { providerID: "anthropic", modelID: "claude-sonnet-4" },
+        },
+        parts: [
+            { id: `${id}_text`, sessionID: "ses_test", messageID: id, type: "text", text },
+            ...extraParts.map((part) => ({ ...part, messageID: id })),
+        ],
+    } as WithParts
+}
+
+/**
+ * An assistant message is one turn: it starts with a step-start part, like
+ * the messages OpenCode records.
+ */
+export function assistantMessage(
+    id: string,
+    parts: any[],
+    tokens?: { input: number; output: number; cache?: { read: number; write: number } },
+): WithParts {
+    const created = nextTime()
+    return {
+        info: {
+            id,
+            sessionID: "ses_test",
+            role: "assistant",
+            time: { created, completed: created + 500 },
+            parentID: "",
+            modelID: "claude-sonnet-4",
+            providerID: "anthropic",
+            mode: "build",
+            path: { cwd: "/", root: "/" },
+            cost: 0,
+            tokens: {
+                input: tokens?.input ?? 0,
+                output: tokens?.output ?? 0,
+                reasoning: 0,
+                cache: tokens?.cache ?? { read: 0, write: 0 },
+            },
+        },
+        parts: [
+            { id: `${id}_step`, sessionID: "ses_test", messageID: id, type: "step-start" },
+            ...parts.map((part) => ({ ...part, messageID: id })),
+        ],
+    } as unknown as WithParts
+}
+
+export function toolPart(callID: string, tool: string, input: any, output: string): any {
+    const end = nextTime()
+    return {
+        id: `prt_${callID}`,
+        sessionID: "ses_test",
+        type: "tool",
+        callID,
+        tool,
+        state: {
+            status: "completed",
+            input,
+            output,
+            title: tool,
+            metadata: {},
+            time: { start: end - 100, end },
+        },
+    }
+}
+
+export function failedToolPart(callID: string, tool: string, input: any, error: string): any {
+    const end = nextTime()
+    return {
+        id: `prt_${callID}`,
+        sessionID: "ses_test",
+        type: "tool",
+        callID,
+        tool,
+        state: { status: "error", input, error, time: { start: end - 100, end } },
+    }
+}
+
+export function reasoningPart(id: string, text: string, metadata?: any): any {
+    return { id, sessionID: "ses_test", type: "reasoning", text, metadata, time: { start: 0 } }
+}
+
+export function filePart(id: string, filename: string, mime: string, url: string): any {
+    return { id, sessionID: "ses_test", type: "file", filename, mime, url }
+}
+
+export function lines(count: number, prefix = "line"): string {
+    return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join("\n")
+}
+
+/**
+ * Builds the session state the chat transform hook has before the strategies
+ * run: current turn, tool cache, attachments and tool ID list.
+ */
+export function loadSession(
+    config: PluginConfig,
+    messages: WithParts[],
+    workingDirectory = process.cwd(),
+): SessionState {
+    const state = createSessionState()
+    state.currentTurn = countTurns(state, messages)
+    syncToolCache(state, config, logger, messages, workingDirectory)
+    syncAttachmentCache(state, logger, messages)
+    buildToolIdList(state, messages, logger)
+    return state
+}
@@ -0,0 +1,92 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { SessionState, WithParts } from "../lib/state"
+import { readCoverage } from "../lib/strategies/read-coverage"
+import { staleReads } from "../lib/strategies/stale-reads"
+import { supersedeWrites } from "../lib/strategies/supersede-writes"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+// A partial read, an edit of the same file, then a full read of it
+function createFileHistory(): WithParts[] {
+    return [
+        userMessage("msg_u1", "Fix the bug in a.ts"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "src/a.ts", offset: 0, limit: 50 }, lines(50)),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart(
+                "e1",
+                "edit",
+                { filePath: "src/a.ts", oldString: "line 3", newString: "fixed" },
+                "Edit applied successfully.",
+            ),
+        ]),
+        assistantMessage("msg_a3", [toolPart("r2", "read", { filePath: "src/a.ts" }, lines(120))]),
+    ]
+}
+
+function runFileStrategies(setup: (state: SessionState) => void): string[] {
+    const config = createTestConfig()
+    config.strategies.staleReads.enabled = true
+    config.strategies.readCoverage.enabled = true
+    config.strategies.supersedeWrites.enabled = true
+    const messages = createFileHistory()
+    const state = loadSession(config, messages)
+    setup(state)
+
+    readCoverage(state, logger, config, messages)
+    supersedeWrites(state, logger, config, messages)
+    staleReads(state, logger, config, messages)
+    return [...state.prune.toolIds].sort()
+}
+
+test("file strategies prune the superseded read and edit", () => {
+    assert.deepEqual(
+        runFileStrategies(() => {}),
+        ["e1", "r1"],
+    )
+})
+
+test("pinned tool calls survive stale-reads, supersede-writes and read-coverage", () => {
+    assert.deepEqual(
+        runFileStrategies((state) => {
+            state.pinned.toolIds.add("r1")
+            state.pinned.toolIds.add("e1")
+        }),
+        [],
+    )
+})
+
+test("pinned file paths keep every call on the file", () => {
+    assert.deepEqual(
+        runFileStrategies((state) => {
+            state.pinned.filePaths.add("src/a.ts")
+        }),
+        [],
+    )
+})
+
+test("pin and recall calls are DCP tool calls, not work to nudge about", () => {
+    const config = createTestConfig()
+    const messages = [
+        userMessage("msg_u1", "Keep the config in context"),
+        assistantMessage("msg_a1", [
+            toolPart("b1", "bash", { command: "ls" }, "a.ts\nb.ts"),
+            toolPart("p1", "pin", { ids: ["0"] }, "Pinned 1 output."),
+            toolPart("c1", "recall", { query: "config" }, "No matches."),
+        ]),
+    ]
+
+    const state = loadSession(config, messages)
+
+    assert.equal(state.nudgeCounter, 0)
+    assert.equal(state.lastToolPrune, true)
+})
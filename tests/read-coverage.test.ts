@@ -0,0 +1,45 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readCoverage } from "../lib/strategies/read-coverage"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+const messages = [
+    userMessage("msg_u1", "Why does the parser reject empty arrays?"),
+    assistantMessage("msg_a1", [
+        toolPart("r1", "read", { filePath: "src/parser.ts", offset: 120, limit: 40 }, lines(40)),
+        toolPart("r2", "read", { filePath: "src/lexer.ts", offset: 0, limit: 60 }, lines(60)),
+    ]),
+    assistantMessage("msg_a2", [
+        toolPart("r3", "read", { filePath: "src/parser.ts" }, lines(400)),
+        toolPart("r4", "read", { filePath: "src/parser.ts", offset: 130, limit: 10 }, lines(10)),
+    ]),
+]
+
+test("readCoverage prunes reads covered by a later wider read of the same file", () => {
+    const config = createTestConfig()
+    config.strategies.readCoverage.enabled = true
+    const state = loadSession(config, messages)
+
+    readCoverage(state, logger, config, messages)
+
+    // r4 is narrower than r3 but came later, so both stay
+    assert.deepEqual([...state.prune.toolIds], ["r1"])
+    assert.ok(state.stats.totalPruneTokens > 0)
+})
+
+test("readCoverage is disabled by default", () => {
+    const config = createTestConfig()
+    const state = loadSession(config, messages)
+
+    readCoverage(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.toolIds], [])
+})
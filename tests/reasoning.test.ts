@@ -0,0 +1,60 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { pruneReasoning } from "../lib/strategies/reasoning"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    reasoningPart,
+    userMessage,
+} from "./fixtures"
+
+const signature = { anthropic: { signature: "EqQBCkgIARABGAIiQL" } }
+
+function createMessages() {
+    return [
+        userMessage("msg_u1", "Plan the migration"),
+        assistantMessage("msg_a1", [
+            reasoningPart("rs_old", lines(30, "thought")),
+            reasoningPart("rs_signed", lines(30, "signed thought"), signature),
+        ]),
+        assistantMessage("msg_a2", []),
+        assistantMessage("msg_a3", [reasoningPart("rs_recent", lines(30, "thought"))]),
+        userMessage("msg_u2", "Go ahead"),
+        // The ongoing exchange, whose reasoning the provider expects back
+        assistantMessage("msg_a4", [reasoningPart("rs_ongoing", lines(30, "thought"))]),
+    ]
+}
+
+test("pruneReasoning strips unsigned reasoning of old turns", () => {
+    const config = createTestConfig()
+    config.strategies.reasoning.enabled = true
+    const messages = createMessages()
+    const state = loadSession(config, messages)
+
+    pruneReasoning(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.reasoningPartIds], [["rs_old", 0]])
+    assert.ok(state.stats.totalPruneTokens > 0)
+})
+
+test("pruneReasoning keeps head and tail lines and drops signed parts with pruneSigned", () => {
+    const config = createTestConfig()
+    config.strategies.reasoning.enabled = true
+    config.strategies.reasoning.keepLines = 2
+    config.strategies.reasoning.pruneSigned = true
+    const messages = createMessages()
+    const state = loadSession(config, messages)
+
+    pruneReasoning(state, logger, config, messages)
+
+    assert.deepEqual(
+        [...state.prune.reasoningPartIds],
+        [
+            ["rs_old", 2],
+            ["rs_signed", 0],
+        ],
+    )
+})
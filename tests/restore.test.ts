@@ -0,0 +1,46 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { readCoverage } from "../lib/strategies/read-coverage"
+import { staleReads } from "../lib/strategies/stale-reads"
+import { supersedeWrites } from "../lib/strategies/supersede-writes"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("restored outputs are not pruned again by the file strategies", () => {
+    const config = createTestConfig()
+    config.strategies.staleReads.enabled = true
+    config.strategies.readCoverage.enabled = true
+    config.strategies.supersedeWrites.enabled = true
+    const messages = [
+        userMessage("msg_u1", "Rename the helper in a.ts"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "src/a.ts", offset: 10, limit: 20 }, lines(20)),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart(
+                "e1",
+                "edit",
+                { filePath: "src/a.ts", oldString: "helper", newString: "format" },
+                "Edit applied successfully.",
+            ),
+        ]),
+        assistantMessage("msg_a3", [toolPart("r2", "read", { filePath: "src/a.ts" }, lines(80))]),
+    ]
+    const state = loadSession(config, messages)
+    // The model pruned r1 and e1 earlier, then restored them
+    state.prune.restoredToolIds.add("r1")
+    state.prune.restoredToolIds.add("e1")
+
+    readCoverage(state, logger, config, messages)
+    supersedeWrites(state, logger, config, messages)
+    staleReads(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.toolIds], [])
+})
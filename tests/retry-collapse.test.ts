@@ -0,0 +1,69 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { retryCollapse } from "../lib/strategies/retry-collapse"
+import {
+    assistantMessage,
+    createTestConfig,
+    failedToolPart,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("retryCollapse removes failed calls once a similar retry succeeds", async () => {
+    const config = createTestConfig()
+    config.strategies.retryCollapse.enabled = true
+    const messages = [
+        userMessage("msg_u1", "Fix the failing test"),
+        assistantMessage("msg_a1", [
+            failedToolPart(
+                "e1",
+                "edit",
+                { filePath: "src/math.ts", oldString: "a+b", newString: "a + b" },
+                "oldString not found in content",
+            ),
+            failedToolPart("b1", "bash", { command: "npm run tset" }, 'Missing script: "tset"'),
+            failedToolPart("b2", "bash", { command: "cargo build" }, "command not found: cargo"),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart(
+                "e2",
+                "edit",
+                { filePath: "src/math.ts", oldString: "a+ b", newString: "a + b" },
+                "Edit applied successfully.",
+            ),
+            toolPart("b3", "bash", { command: "npm run test" }, "1 passing"),
+            toolPart("b4", "bash", { command: "ls -la" }, "src\ntests"),
+        ]),
+    ]
+    const state = loadSession(config, messages)
+
+    await retryCollapse({}, state, logger, config, messages, process.cwd())
+
+    // b2 was never retried: ls is not a similar command
+    assert.deepEqual([...state.prune.collapsedToolIds], ["e1", "b1"])
+    assert.deepEqual([...state.prune.toolIds], ["e1", "b1"])
+    assert.equal(state.prune.reasons.get("b1"), "retry")
+})
+
+test("retryCollapse keeps failures retried outside the turn window", async () => {
+    const config = createTestConfig()
+    config.strategies.retryCollapse.enabled = true
+    const messages = [
+        userMessage("msg_u1", "Read the config"),
+        assistantMessage("msg_a1", [
+            failedToolPart("r1", "read", { filePath: "config.json" }, "File not found"),
+        ]),
+        assistantMessage("msg_a2", []),
+        assistantMessage("msg_a3", []),
+        assistantMessage("msg_a4", [
+            toolPart("r2", "read", { filePath: "config.json" }, '1| { "port": 3000 }'),
+        ]),
+    ]
+    const state = loadSession(config, messages)
+
+    await retryCollapse({}, state, logger, config, messages, process.cwd())
+
+    assert.deepEqual([...state.prune.collapsedToolIds], [])
+})
@@ -0,0 +1,445 @@
+import { after, test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import type { PluginConfig, PruneRule } from "../lib/config"
+import type { SessionState, WithParts } from "../lib/state"
+import { runCustomStrategies } from "../lib/strategies/custom"
+import { decay } from "../lib/strategies/decay"
+import { deduplicate } from "../lib/strategies/deduplication"
+import { diskChanges } from "../lib/strategies/disk-changes"
+import { purgeErrors } from "../lib/strategies/purge-errors"
+import { readCoverage } from "../lib/strategies/read-coverage"
+import { retryCollapse } from "../lib/strategies/retry-collapse"
+import { applyRules, collectRuleProtections } from "../lib/strategies/rules"
+import { smartTruncate } from "../lib/strategies/smart-truncate"
+import { retainLatestSnapshots } from "../lib/strategies/snapshot-tools"
+import { staleReads } from "../lib/strategies/stale-reads"
+import { supersedeWrites } from "../lib/strategies/supersede-writes"
+import { tokenBudget } from "../lib/strategies/token-budget"
+import {
+    assistantMessage,
+    createTestConfig,
+    failedToolPart,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+// Tool calls removed, truncated, extracted or annotated by any strategy
+function touchedIds(state: SessionState): string[] {
+    const ids = new Set([
+        ...state.prune.toolIds,
+        ...state.prune.truncatedToolIds.keys(),
+        ...state.prune.collapsedToolIds,
+        ...state.prune.extractedToolIds,
+        ...state.prune.trimmedToolIds.keys(),
+        ...state.prune.changedOnDiskToolIds,
+    ])
+    return [...ids].sort()
+}
+
+function idleTurns(count: number, from: number): WithParts[] {
+    return Array.from({ length: count }, (_, i) => assistantMessage(`msg_idle${from + i}`, []))
+}
+
+const tscOutput = (project: string) =>
+    [
+        ...lines(30, `${project}/src/file.ts`),
+        `${project}/src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.`,
+        "Found 1 error.",
+    ].join("\n")
+
+const changedFilesDir = createChangedFiles()
+after(() => rmSync(changedFilesDir, { recursive: true, force: true }))
+
+interface Scenario {
+    name: string
+    // Tool call the protect rule matches, and one it does not
+    protectedId: string
+    controlId: string
+    rule: PruneRule
+    workingDirectory?: string
+    configure?: (config: PluginConfig) => void
+    messages: () => WithParts[]
+    run: (state: SessionState, config: PluginConfig, messages: WithParts[]) => Promise<void> | void
+}
+
+const scenarios: Scenario[] = [
+    {
+        name: "deduplication",
+        protectedId: "d1",
+        controlId: "d3",
+        rule: { tool: "bash", parameterPattern: "src", action: "protect" },
+        messages: () => [
+            userMessage("msg_u1", "List the sources"),
+            assistantMessage("msg_a1", [
+                toolPart("d1", "bash", { command: "ls src" }, "a.ts"),
+                toolPart("d3", "bash", { command: "ls test" }, "a.test.ts"),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart("d2", "bash", { command: "ls src" }, "a.ts"),
+                toolPart("d4", "bash", { command: "ls test" }, "a.test.ts"),
+            ]),
+        ],
+        run: (state, config, messages) => deduplicate(state, logger, config, messages),
+    },
+    {
+        name: "snapshot tools",
+        protectedId: "t1",
+        controlId: "t3",
+        rule: {
+            tool: "todowrite",
+            parameterSource: "raw",
+            parameterPattern: "draft",
+            action: "protect",
+        },
+        messages: () => [
+            userMessage("msg_u1", "Plan the work"),
+            assistantMessage("msg_a1", [
+                toolPart("t1", "todowrite", { todos: ["draft plan"] }, "1 todo"),
+                toolPart("t3", "todowrite", { todos: ["first step"] }, "1 todo"),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart("t2", "todowrite", { todos: ["final step"] }, "1 todo"),
+            ]),
+        ],
+        configure: (config) => {
+            config.strategies.snapshotTools.enabled = true
+        },
+        run: (state, config, messages) => retainLatestSnapshots(state, logger, config, messages),
+    },
+    {
+        name: "read coverage",
+        protectedId: "r1",
+        controlId: "r3",
+        rule: { tool: "read", parameterPattern: "a\\.ts", action: "protect" },
+        configure: (config) => {
+            config.strategies.readCoverage.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Look at a.ts and b.ts"),
+            assistantMessage("msg_a1", [
+                toolPart("r1", "read", { filePath: "src/a.ts", offset: 0, limit: 20 }, lines(20)),
+                toolPart("r3", "read", { filePath: "src/b.ts", offset: 0, limit: 20 }, lines(20)),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart("r2", "read", { filePath: "src/a.ts" }, lines(90)),
+                toolPart("r4", "read", { filePath: "src/b.ts" }, lines(90)),
+            ]),
+        ],
+        run: (state, config, messages) => readCoverage(state, logger, config, messages),
+    },
+    {
+        name: "supersede writes",
+        protectedId: "e1",
+        controlId: "e2",
+        rule: { tool: "edit", parameterPattern: "a\\.ts", action: "protect" },
+        messages: () => [
+            userMessage("msg_u1", "Fix both files"),
+            assistantMessage("msg_a1", [
+                toolPart(
+                    "e1",
+                    "edit",
+                    { filePath: "src/a.ts", oldString: "x", newString: "y" },
+                    "ok",
+                ),
+                toolPart(
+                    "e2",
+                    "edit",
+                    { filePath: "src/b.ts", oldString: "x", newString: "y" },
+                    "ok",
+                ),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart("r1", "read", { filePath: "src/a.ts" }, lines(30)),
+                toolPart("r2", "read", { filePath: "src/b.ts" }, lines(30)),
+            ]),
+        ],
+        run: (state, config, messages) => supersedeWrites(state, logger, config, messages),
+    },
+    {
+        name: "stale reads",
+        protectedId: "r1",
+        controlId: "r2",
+        rule: { tool: "read", parameterPattern: "a\\.ts", action: "protect" },
+        configure: (config) => {
+            config.strategies.staleReads.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Fix both files"),
+            assistantMessage("msg_a1", [
+                toolPart("r1", "read", { filePath: "src/a.ts" }, lines(30)),
+                toolPart("r2", "read", { filePath: "src/b.ts" }, lines(30)),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart(
+                    "e1",
+                    "edit",
+                    { filePath: "src/a.ts", oldString: "x", newString: "y" },
+                    "ok",
+                ),
+                toolPart(
+                    "e2",
+                    "edit",
+                    { filePath: "src/b.ts", oldString: "x", newString: "y" },
+                    "ok",
+                ),
+            ]),
+        ],
+        run: (state, config, messages) => staleReads(state, logger, config, messages),
+    },
+    {
+        name: "disk changes",
+        protectedId: "r1",
+        controlId: "r2",
+        rule: { tool: "read", parameterPattern: "a\\.ts", action: "protect" },
+        workingDirectory: changedFilesDir,
+        configure: (config) => {
+            config.strategies.diskChanges.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Look at both files"),
+            assistantMessage("msg_a1", [
+                toolPart("r1", "read", { filePath: "a.ts" }, lines(30)),
+                toolPart("r2", "read", { filePath: "b.ts" }, lines(30)),
+            ]),
+        ],
+        run: (state, config, messages) => diskChanges(state, logger, config, messages),
+    },
+    {
+        name: "purge errors",
+        protectedId: "f1",
+        controlId: "f2",
+        rule: { tool: "bash", status: "error", parameterPattern: "build", action: "protect" },
+        messages: () => [
+            userMessage("msg_u1", "Build and lint"),
+            assistantMessage("msg_a1", [
+                failedToolPart("f1", "bash", { command: "npm run build" }, "exit code 1"),
+                failedToolPart("f2", "bash", { command: "npm run lint" }, "exit code 1"),
+            ]),
+            ...idleTurns(4, 2),
+        ],
+        run: (state, config, messages) => purgeErrors(state, logger, config, messages),
+    },
+    {
+        name: "retry collapse",
+        protectedId: "f1",
+        controlId: "f2",
+        rule: { tool: "bash", status: "error", action: "protect" },
+        configure: (config) => {
+            config.strategies.retryCollapse.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Build it and fix a.ts"),
+            assistantMessage("msg_a1", [
+                failedToolPart("f1", "bash", { command: "npm run buld" }, "Missing script"),
+                failedToolPart("f2", "edit", { filePath: "src/a.ts", oldString: "x" }, "No match"),
+            ]),
+            assistantMessage("msg_a2", [
+                toolPart("s1", "bash", { command: "npm run build" }, "done"),
+                toolPart("s2", "edit", { filePath: "src/a.ts", oldString: "y" }, "ok"),
+            ]),
+        ],
+        run: (state, config, messages) =>
+            retryCollapse(undefined, state, logger, config, messages, process.cwd()),
+    },
+    {
+        name: "rules",
+        protectedId: "b1",
+        controlId: "b2",
+        rule: { tool: "bash", parameterPattern: "build", action: "protect" },
+        configure: (config) => {
+            config.strategies.rules.push({ tool: "bash", action: "prune" })
+        },
+        messages: () => [
+            userMessage("msg_u1", "Build and test"),
+            assistantMessage("msg_a1", [
+                toolPart("b1", "bash", { command: "npm run build" }, "built"),
+                toolPart("b2", "bash", { command: "npm test" }, "passed"),
+            ]),
+        ],
+        run: (state, config, messages) => applyRules(state, logger, config, messages),
+    },
+    {
+        name: "smart truncate",
+        protectedId: "b1",
+        controlId: "b2",
+        rule: { tool: "bash", parameterPattern: "server", action: "protect" },
+        configure: (config) => {
+            config.strategies.smartTruncate.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Type-check both packages"),
+            assistantMessage("msg_a1", [
+                toolPart("b1", "bash", { command: "npx tsc -p server" }, tscOutput("server")),
+                toolPart("b2", "bash", { command: "npx tsc -p client" }, tscOutput("client")),
+            ]),
+            ...idleTurns(4, 2),
+        ],
+        run: (state, config, messages) => smartTruncate(state, logger, config, messages),
+    },
+    {
+        name: "decay",
+        protectedId: "b1",
+        controlId: "b2",
+        rule: { tool: "bash", parameterPattern: "server", action: "protect" },
+        configure: (config) => {
+            config.strategies.decay.enabled = true
+        },
+        messages: () => [
+            userMessage("msg_u1", "Show both logs"),
+            assistantMessage("msg_a1", [
+                toolPart("b1", "bash", { command: "cat server.log" }, lines(100)),
+                toolPart("b2", "bash", { command: "cat client.log" }, lines(100)),
+            ]),
+            ...idleTurns(8, 2),
+        ],
+        run: (state, config, messages) => decay(state, logger, config, messages),
+    },
+    {
+        name: "token budget",
+        protectedId: "b1",
+        controlId: "b2",
+        rule: { tool: "bash", parameterPattern: "server", action: "protect" },
+        configure: (config) => {
+            config.strategies.tokenBudget.enabled = true
+            config.tools.settings.contextLimit = 1000
+        },
+        messages: () => [
+            userMessage("msg_u1", "Show both logs"),
+            assistantMessage("msg_a1", [
+                toolPart("b1", "bash", { command: "cat server.log" }, lines(300)),
+                toolPart("b2", "bash", { command: "cat client.log" }, lines(300)),
+            ]),
+            assistantMessage("msg_a2", [], { input: 50_000, output: 100 }),
+        ],
+        run: (state, config, messages) =>
+            tokenBudget(undefined, state, logger, config, messages, process.cwd()),
+    },
+    {
+        name: "custom strategies",
+        protectedId: "b1",
+        controlId: "b2",
+        rule: { tool: "bash", parameterPattern: "server", action: "protect" },
+        messages: () => [
+            userMessage("msg_u1", "Show both logs"),
+            assistantMessage("msg_a1", [
+                toolPart("b1", "bash", { command: "cat server.log" }, lines(10)),
+                toolPart("b2", "bash", { command: "cat client.log" }, lines(10)),
+            ]),
+        ],
+        run: (state, config, messages) =>
+            runCustomStrategies(
+                [
+                    {
+                        name: "prune-everything",
+                        run: (state) => {
+                            for (const id of state.toolIdList) {
+                                state.prune.toolIds.add(id)
+                            }
+                        },
+                    },
+                ],
+                state,
+                logger,
+                config,
+                messages,
+            ),
+    },
+]
+
+// Two files read long ago and changed on disk since
+function createChangedFiles(): string {
+    const dir = mkdtempSync(join(tmpdir(), "dcp-rules-"))
+    const past = new Date("2020-01-01T00:00:00Z")
+    for (const name of ["a.ts", "b.ts"]) {
+        writeFileSync(join(dir, name), "export const value = 1\n")
+        utimesSync(join(dir, name), past, past)
+    }
+    return dir
+}
+
+async function runScenario(scenario: Scenario, rules: PruneRule[]): Promise<string[]> {
+    const config = createTestConfig()
+    config.strategies.rules = rules
+    scenario.configure?.(config)
+    const messages = scenario.messages()
+    const state = loadSession(config, messages, scenario.workingDirectory)
+    if (scenario.workingDirectory) {
+        for (const name of ["a.ts", "b.ts"]) {
+            writeFileSync(join(scenario.workingDirectory, name), "export const value = 2\n")
+        }
+    }
+
+    collectRuleProtections(state, logger, config)
+    await scenario.run(state, config, messages)
+    return touchedIds(state)
+}
+
+for (const scenario of scenarios) {
+    test(`${scenario.name} keeps tool calls protected by a rule`, async () => {
+        const unprotected = await runScenario(scenario, [])
+        assert.ok(unprotected.includes(scenario.protectedId), `${unprotected}`)
+
+        const touched = await runScenario(scenario, [scenario.rule])
+        assert.ok(!touched.includes(scenario.protectedId), `${touched}`)
+        assert.ok(touched.includes(scenario.controlId), `${touched}`)
+    })
+}
+
+test("applyRules uses the first matching rule for each tool call", () => {
+    const config = createTestConfig()
+    config.strategies.rules = [
+        { tool: "bash", parameterPattern: "^git ", action: "protect" },
+        { tool: "bash", status: "error", action: "prune" },
+        { tool: ["bash", "grep"], minTokens: 100, action: "truncate", truncateLines: 10 },
+    ]
+    const messages = [
+        userMessage("msg_u1", "Find the failing code"),
+        assistantMessage("msg_a1", [
+            failedToolPart("b1", "bash", { command: "git log -p" }, "fatal: bad revision"),
+            failedToolPart("b2", "bash", { command: "npm run build" }, "exit code 1"),
+            toolPart("b3", "bash", { command: "cat app.log" }, lines(200)),
+            toolPart("g1", "grep", { pattern: "TODO" }, lines(200, "src/a.ts:1: TODO")),
+            toolPart("b4", "bash", { command: "pwd" }, "/repo"),
+        ]),
+    ]
+    const state = loadSession(config, messages)
+
+    collectRuleProtections(state, logger, config)
+    applyRules(state, logger, config, messages)
+
+    assert.deepEqual([...state.ruleProtectedToolIds], ["b1"])
+    assert.deepEqual([...state.prune.toolIds], ["b2"])
+    assert.deepEqual(
+        [...state.prune.truncatedToolIds],
+        [
+            ["b3", 10],
+            ["g1", 10],
+        ],
+    )
+})
+
+test("applyRules skips rules with an invalid pattern", () => {
+    const config = createTestConfig()
+    config.strategies.rules = [
+        { parameterPattern: "([", action: "prune" },
+        { tool: "bash", parameterPattern: "ls", action: "prune" },
+    ]
+    const messages = [
+        userMessage("msg_u1", "List files"),
+        assistantMessage("msg_a1", [
+            toolPart("b1", "bash", { command: "ls" }, "a.ts"),
+            toolPart("b2", "bash", { command: "pwd" }, "/repo"),
+        ]),
+    ]
+    const state = loadSession(config, messages)
+
+    applyRules(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.toolIds], ["b1"])
+})
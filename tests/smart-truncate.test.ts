@@ -0,0 +1,129 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { extractMeaningfulOutput } from "../lib/smart-truncate"
+import { smartTruncate } from "../lib/strategies/smart-truncate"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("extractMeaningfulOutput keeps TypeScript diagnostics", () => {
+    const output = [
+        "> tsc --noEmit",
+        ...Array.from({ length: 20 }, (_, i) => `noise line ${i}`),
+        "src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/b.ts(10,1): error TS2304: Cannot find name 'foo'.",
+        "Found 2 errors.",
+    ].join("\n")
+
+    const extract = extractMeaningfulOutput("npx tsc --noEmit", output)
+
+    assert.ok(extract)
+    const lines = extract.split("\n")
+    assert.match(lines[0], /^\[Extracted 3 of 24 lines from TypeScript diagnostics/)
+    assert.deepEqual(lines.slice(1), [
+        "src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/b.ts(10,1): error TS2304: Cannot find name 'foo'.",
+        "Found 2 errors.",
+    ])
+})
+
+test("extractMeaningfulOutput shortens stack traces to their first frames", () => {
+    const output = [
+        "FAIL src/a.test.ts",
+        "Error: boom",
+        "    at one (a.ts:1:1)",
+        "    at two (a.ts:2:1)",
+        "    at three (a.ts:3:1)",
+        "    at four (a.ts:4:1)",
+        "    at five (a.ts:5:1)",
+        ...Array.from({ length: 20 }, (_, i) => `  ok ${i}`),
+        "Tests: 1 failed, 20 passed",
+    ].join("\n")
+
+    const extract = extractMeaningfulOutput("npx jest", output)
+
+    assert.ok(extract)
+    assert.ok(extract.includes("    at three (a.ts:3:1)"))
+    assert.ok(!extract.includes("    at four (a.ts:4:1)"))
+    assert.ok(extract.includes("Tests: 1 failed, 20 passed"))
+})
+
+test("extractMeaningfulOutput keeps lint errors with their file headers", () => {
+    const output = [
+        "",
+        "/repo/src/a.ts",
+        "  3:7   error    'x' is assigned a value but never used  no-unused-vars",
+        "  9:1   warning  Unexpected console statement           no-console",
+        ...Array.from(
+            { length: 6 },
+            (_, i) => `  ${i + 10}:1  warning  Unexpected any  no-explicit-any`,
+        ),
+        "",
+        "✖ 8 problems (1 error, 7 warnings)",
+    ].join("\n")
+
+    const extract = extractMeaningfulOutput("npx eslint src", output)
+
+    assert.ok(extract)
+    assert.match(extract, /^\[Extracted 3 of 12 lines from lint diagnostics/)
+    assert.ok(extract.includes("/repo/src/a.ts"))
+    assert.ok(extract.includes("no-unused-vars"))
+    assert.ok(!extract.includes("no-console"))
+})
+
+test("extractMeaningfulOutput keeps install errors and the summary", () => {
+    const output = [
+        ...Array.from({ length: 12 }, (_, i) => `npm http fetch GET 200 https://registry/pkg-${i}`),
+        "npm warn deprecated glob@7.2.3: Glob versions prior to v9 are no longer supported",
+        "added 412 packages, and audited 413 packages in 9s",
+        "found 0 vulnerabilities",
+    ].join("\n")
+
+    const extract = extractMeaningfulOutput("npm install", output)
+
+    assert.ok(extract)
+    assert.deepEqual(extract.split("\n").slice(1), [
+        "added 412 packages, and audited 413 packages in 9s",
+        "found 0 vulnerabilities",
+    ])
+})
+
+test("extractMeaningfulOutput returns undefined for unrecognized or irreducible output", () => {
+    assert.equal(extractMeaningfulOutput("ls -la", "a\nb\nc"), undefined)
+    assert.equal(extractMeaningfulOutput("npx tsc", "error TS1: x\nFound 1 error."), undefined)
+})
+
+test("smartTruncate extracts old recognized bash outputs only", () => {
+    const config = createTestConfig()
+    config.strategies.smartTruncate = { enabled: true, turns: 2, protectedTools: [] }
+    const tscOutput = [
+        ...lines(30, "src/file.ts"),
+        "src/a.ts(3,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "Found 1 error.",
+    ].join("\n")
+    const messages = [
+        userMessage("msg_u1", "Make the build pass"),
+        assistantMessage("msg_a1", [
+            toolPart("tsc", "bash", { command: "npx tsc --noEmit" }, tscOutput),
+            toolPart("ls", "bash", { command: "ls -R" }, lines(40, "file")),
+            toolPart("read", "read", { filePath: "src/a.ts" }, tscOutput),
+        ]),
+        assistantMessage("msg_a2", []),
+        assistantMessage("msg_a3", [
+            toolPart("tsc2", "bash", { command: "npx tsc --noEmit" }, tscOutput),
+        ]),
+    ]
+    const state = loadSession(config, messages)
+
+    smartTruncate(state, logger, config, messages)
+
+    assert.deepEqual([...state.prune.extractedToolIds], ["tsc"])
+    assert.equal(state.prune.toolIds.size, 0)
+    assert.ok(state.stats.totalPruneTokens > 0)
+})
@@ -0,0 +1,47 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { staleReads } from "../lib/strategies/stale-reads"
+import {
+    assistantMessage,
+    createTestConfig,
+    failedToolPart,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("staleReads prunes reads of files changed by a later successful mutation", () => {
+    const config = createTestConfig()
+    config.strategies.staleReads.enabled = true
+    const messages = [
+        userMessage("msg_u1", "Rename getUser to fetchUser"),
+        assistantMessage("msg_a1", [
+            toolPart("r1", "read", { filePath: "src/api.ts" }, lines(80)),
+            toolPart("r2", "read", { filePath: "src/db.ts" }, lines(60)),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart(
+                "e1",
+                "edit",
+                { filePath: "src/api.ts", oldString: "getUser", newString: "fetchUser" },
+                "Edit applied successfully.",
+            ),
+            failedToolPart(
+                "w1",
+                "write",
+                { filePath: "src/db.ts", content: "export {}" },
+                "You must read the file before overwriting it",
+            ),
+        ]),
+        assistantMessage("msg_a3", [toolPart("r3", "read", { filePath: "src/api.ts" }, lines(80))]),
+    ]
+    const state = loadSession(config, messages)
+
+    staleReads(state, logger, config, messages)
+
+    // The failed write left src/db.ts untouched, and r3 saw the edit
+    assert.deepEqual([...state.prune.toolIds], ["r1"])
+    assert.ok(state.stats.totalPruneTokens > 0)
+})
@@ -0,0 +1,65 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import type { AssistantMessage } from "@opencode-ai/sdk/v2"
+import { tokenBudget } from "../lib/strategies/token-budget"
+import {
+    assistantMessage,
+    createTestConfig,
+    lines,
+    loadSession,
+    logger,
+    toolPart,
+    userMessage,
+} from "./fixtures"
+
+test("tokenBudget prunes old and large outputs until the context is under target", async () => {
+    const config = createTestConfig()
+    config.strategies.tokenBudget.enabled = true
+    config.strategies.tokenBudget.target = 1000
+    config.tools.settings.contextLimit = 1500
+    const last = assistantMessage("msg_a3", [], { input: 0, output: 50 })
+    const messages = [
+        userMessage("msg_u1", "Find out why the build is slow"),
+        assistantMessage("msg_a1", [
+            toolPart("b1", "bash", { command: "npm run build --verbose" }, lines(300, "step")),
+            toolPart("g1", "grep", { pattern: "webpack" }, lines(5, "match")),
+        ]),
+        assistantMessage("msg_a2", [
+            toolPart("b2", "bash", { command: "npm run build --profile" }, lines(300, "step")),
+        ]),
+        last,
+    ]
+    const state = loadSession(config, messages)
+    const buildTokens = state.toolParameters.get("b1")?.tokenCount ?? 0
+    assert.ok(buildTokens > 600)
+
+    // Pruning b1 alone is just enough to get under the target
+    const lastInfo = last.info as AssistantMessage
+    lastInfo.tokens.input = config.strategies.tokenBudget.target + buildTokens - 50 - 1
+
+    await tokenBudget({}, state, logger, config, messages, process.cwd())
+
+    // b2 is as large as b1 but younger, so b1 goes first
+    assert.deepEqual([...state.prune.toolIds], ["b1"])
+    assert.equal(state.prune.reasons.get("b1"), "budget")
+    assert.equal(state.stats.totalPruneTokens, buildTokens)
+    assert.equal(state.cacheScheduler.flushRequested, true)
+})
+
+test("tokenBudget leaves the context alone while it is under the limit", async () => {
+    const config = createTestConfig()
+    config.strategies.tokenBudget.enabled = true
+    config.tools.settings.contextLimit = 100_000
+    const messages = [
+        userMessage("msg_u1", "Run the tests"),
+        assistantMessage("msg_a1", [toolPart("b1", "bash", { command: "npm test" }, lines(300))], {
+            input: 5_000,
+            output: 100,
+        }),
+    ]
+    const state = loadSession(config, messages)
+
+    await tokenBudget({}, state, logger, config, messages, process.cwd())
+
+    assert.deepEqual([...state.prune.toolIds], [])
+})
@@ -0,0 +1,66 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { mergeTrimRanges, parseTrimRanges } from "../lib/tools/utils"
+
+const readOutput = [
+    "<file>",
+    ...Array.from({ length: 20 }, (_, i) => `${String(i + 1).padStart(5, "0")}| line ${i + 1}`),
+    "",
+    "(End of file - total 20 lines)",
+    "</file>",
+]
+
+const plainOutput = Array.from({ length: 10 }, (_, i) => `out ${i + 1}`)
+
+test("parseTrimRanges counts output lines when the output has no line numbers", () => {
+    assert.deepEqual(parseTrimRanges(["2-4", "7"], plainOutput), [
+        [2, 4],
+        [7, 7],
+    ])
+})
+
+test("parseTrimRanges clamps the end of a range to the output", () => {
+    assert.deepEqual(parseTrimRanges(["8-50"], plainOutput), [[8, 10]])
+})
+
+test("parseTrimRanges maps ranges to the output's own line numbers", () => {
+    // File line 5 is output line 6, after the <file> header
+    assert.deepEqual(mergeTrimRanges(parseTrimRanges(["5-7"], readOutput)), [[6, 8]])
+})
+
+test("parseTrimRanges rejects malformed and out of bounds ranges", () => {
+    assert.throws(() => parseTrimRanges(["abc"], plainOutput), /Invalid range/)
+    assert.throws(() => parseTrimRanges(["5-2"], plainOutput), /Invalid range/)
+    assert.throws(() => parseTrimRanges(["0-2"], plainOutput), /Invalid range/)
+    assert.throws(() => parseTrimRanges(["11"], plainOutput), /past the end/)
+    assert.throws(() => parseTrimRanges(["30-40"], readOutput), /matches no numbered line/)
+})
+
+test("mergeTrimRanges sorts and joins overlapping and adjacent ranges", () => {
+    assert.deepEqual(
+        mergeTrimRanges([
+            [10, 12],
+            [1, 3],
+            [4, 5],
+            [11, 15],
+            [20, 20],
+        ]),
+        [
+            [1, 5],
+            [10, 15],
+            [20, 20],
+        ],
+    )
+})
+
+test("mergeTrimRanges does not modify its input", () => {
+    const ranges: [number, number][] = [
+        [1, 2],
+        [2, 4],
+    ]
+    mergeTrimRanges(ranges)
+    assert.deepEqual(ranges, [
+        [1, 2],
+        [2, 4],
+    ])
+})